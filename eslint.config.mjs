@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Decoders copied from three on install (scripts/copy-decoders.mjs):
+    "public/decoders/**",
   ]),
 ]);
 
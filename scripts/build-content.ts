@@ -0,0 +1,144 @@
+// scripts/build-content.ts
+// Builds the region and structure catalog from the Markdown files in
+// src/content/regions and src/content/structures, and the tour list from the
+// JSON files in src/content/tours. Each file is checked against
+// lib/contentSchema, every mesh name, tour highlight and annotation pin is
+// checked against the node names in the GLB models, and the entries are written to
+// src/content/generated as JSON. Run as `npm run content`, and before `dev`
+// and `build`, so both fail on bad content.
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import matter from "gray-matter";
+import { z } from "zod";
+import { ANNOTATIONS } from "../src/lib/annotations";
+import { regionContent, structureContent, tourContent } from "../src/lib/contentSchema";
+import { matchesAny } from "../src/lib/meshNames";
+import { readGlbNodeNames } from "./glb";
+
+const CONTENT_DIR = "src/content";
+const OUT_DIR = "src/content/generated";
+const MODELS_DIR = "public/models";
+// set to 1 to build without the models, and without the mesh name check
+const SKIP_MESH_CHECK = "SKIP_MESH_CHECK";
+
+export class ContentError extends Error {
+  constructor(problems: string[]) {
+    super(`Invalid content:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+    this.name = "ContentError";
+  }
+}
+
+// "## en\n\nText…\n\n## id\n\nTeks…" -> { en: "Text…", id: "Teks…" }
+function splitLocales(body: string) {
+  const sections: Record<string, string> = {};
+  let current: string | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    const heading = /^##\s+(\S+)\s*$/.exec(line);
+    if (heading) current = heading[1];
+    else if (current) sections[current] = `${sections[current] ?? ""}\n${line}`;
+  }
+  for (const locale of Object.keys(sections)) sections[locale] = sections[locale].trim().replace(/\s*\n\s*/g, " ");
+  return sections;
+}
+
+function readCollection<T>(root: string, dir: string, schema: z.ZodType<T>, problems: string[]) {
+  const path = join(root, CONTENT_DIR, dir);
+  const files = readdirSync(path)
+    .filter((f) => f.endsWith(".md") || f.endsWith(".mdx"))
+    .sort();
+  const entries: { file: string; entry: T }[] = [];
+  for (const file of files) {
+    const { data, content } = matter(readFileSync(join(path, file), "utf8"));
+    const id = basename(file).replace(/\.mdx?$/, "");
+    const parsed = schema.safeParse({ ...data, id, description: splitLocales(content) });
+    if (parsed.success) entries.push({ file: `${dir}/${file}`, entry: parsed.data });
+    else for (const issue of parsed.error.issues) problems.push(`${dir}/${file}: ${issue.path.join(".") || "(file)"}: ${issue.message}`);
+  }
+  return entries;
+}
+
+function readTours(root: string, problems: string[]) {
+  const path = join(root, CONTENT_DIR, "tours");
+  const files = existsSync(path) ? readdirSync(path).filter((f) => f.endsWith(".json")).sort() : [];
+  const entries: { file: string; entry: z.output<typeof tourContent> }[] = [];
+  for (const file of files) {
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(join(path, file), "utf8"));
+    } catch (err) {
+      problems.push(`tours/${file}: ${(err as Error).message}`);
+      continue;
+    }
+    const parsed = tourContent.safeParse({ ...(data as object), id: basename(file, ".json") });
+    if (parsed.success) entries.push({ file: `tours/${file}`, entry: parsed.data });
+    else for (const issue of parsed.error.issues) problems.push(`tours/${file}: ${issue.path.join(".") || "(file)"}: ${issue.message}`);
+  }
+  return entries;
+}
+
+export function buildContent(root = process.cwd()) {
+  const problems: string[] = [];
+  const regions = readCollection(root, "regions", regionContent, problems);
+  const structures = readCollection(root, "structures", structureContent, problems);
+  const tours = readTours(root, problems);
+
+  const regionIds = new Set(regions.map(({ entry }) => entry.id));
+  for (const { file, entry } of structures) {
+    if (!regionIds.has(entry.region)) problems.push(`${file}: region: no region "${entry.region}" in ${CONTENT_DIR}/regions`);
+  }
+  const structureIds = new Set(structures.map(({ entry }) => entry.id));
+  // highlights that aren't structure ids, checked as node names below
+  const tourNodes = tours.flatMap(({ file, entry }) =>
+    entry.keyframes.flatMap((k, i) => (k.highlight ?? []).filter((h) => !structureIds.has(h)).map((name) => ({ file, at: `keyframes.${i}.highlight`, name })))
+  );
+
+  // the models are large and not in git; without them the names can't be
+  // checked, which has to be asked for rather than passing unnoticed
+  const modelsDir = join(root, MODELS_DIR);
+  const models = existsSync(modelsDir) ? readdirSync(modelsDir).filter((f) => f.endsWith(".glb")) : [];
+  if (process.env[SKIP_MESH_CHECK] === "1") {
+    console.warn(`[content] ${SKIP_MESH_CHECK}=1; skipping the mesh name check`);
+  } else if (models.length === 0) {
+    problems.push(`${MODELS_DIR}: no .glb files to check mesh names against (set ${SKIP_MESH_CHECK}=1 to build without them)`);
+  } else {
+    const nodeNames = models.flatMap((f) => readGlbNodeNames(join(modelsDir, f)));
+    for (const { file, entry } of [...regions, ...structures]) {
+      for (const mesh of entry.meshes) {
+        if (!nodeNames.some((name) => matchesAny(name, [mesh]))) problems.push(`${file}: meshes: "${mesh}" matches no node in ${models.join(", ")}`);
+      }
+    }
+    for (const { file, at, name } of tourNodes) {
+      if (!nodeNames.includes(name)) problems.push(`${file}: ${at}: "${name}" is neither a structure id nor a node in ${models.join(", ")}`);
+    }
+    // pins hang off one node by its exact name
+    for (const a of ANNOTATIONS) {
+      if (!nodeNames.includes(a.mesh)) problems.push(`src/lib/annotations.ts: ${a.id}: mesh: no node "${a.mesh}" in ${models.join(", ")}`);
+    }
+  }
+
+  if (problems.length) throw new ContentError(problems);
+
+  const out = join(root, OUT_DIR);
+  mkdirSync(out, { recursive: true });
+  const write = (name: string, data: unknown) => {
+    const json = `${JSON.stringify(data, null, 2)}\n`;
+    const path = join(out, name);
+    // unchanged output is left alone so the dev server doesn't reload
+    if (!existsSync(path) || readFileSync(path, "utf8") !== json) writeFileSync(path, json);
+  };
+  write("regions.json", regions.map(({ entry }) => entry));
+  write("structures.json", structures.map(({ entry }) => entry));
+  write("tours.json", tours.map(({ entry }) => entry));
+  return { regions: regions.map(({ entry }) => entry), structures: structures.map(({ entry }) => entry), tours: tours.map(({ entry }) => entry) };
+}
+
+if (require.main === module) {
+  try {
+    const { regions, structures, tours } = buildContent();
+    console.log(`[content] ${regions.length} regions, ${structures.length} structures and ${tours.length} tours written to ${OUT_DIR}`);
+  } catch (error) {
+    if (!(error instanceof ContentError)) throw error;
+    console.error(error.message);
+    process.exitCode = 1;
+  }
+}
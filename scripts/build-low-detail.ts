@@ -0,0 +1,72 @@
+// scripts/build-low-detail.ts
+// Writes the decimated copy of each layer model that low-end devices load
+// (Mia_Skin.glb -> Mia_Skin_low.glb, see lowDetailUrl in lib/layers). Only
+// the triangles change: node names, the hierarchy, materials and textures are
+// kept, so picking, highlights and the manifest work on either copy. Run as
+// `npm run low-detail`, and before `dev` and `build`; a copy newer than its
+// model is left alone.
+import { existsSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { NodeIO, type Document } from "@gltf-transform/core";
+import { ALL_EXTENSIONS } from "@gltf-transform/extensions";
+import { simplify, weld } from "@gltf-transform/functions";
+import draco3d from "draco3dgltf";
+import { MeshoptDecoder, MeshoptEncoder, MeshoptSimplifier } from "meshoptimizer";
+import { LAYERS, lowDetailUrl } from "../src/lib/layers";
+
+const PUBLIC_DIR = "public";
+
+// share of the vertices to aim for, and the largest change in shape allowed
+// on the way, as a fraction of each mesh's radius; the error limit wins
+const RATIO = 0.25;
+const ERROR = 0.01;
+
+async function createIO() {
+  await MeshoptDecoder.ready;
+  await MeshoptEncoder.ready;
+  await MeshoptSimplifier.ready;
+  // Draco and Meshopt compressed models are written back the same way
+  return new NodeIO().registerExtensions(ALL_EXTENSIONS).registerDependencies({
+    "draco3d.decoder": await draco3d.createDecoderModule(),
+    "draco3d.encoder": await draco3d.createEncoderModule(),
+    "meshopt.decoder": MeshoptDecoder,
+    "meshopt.encoder": MeshoptEncoder,
+  });
+}
+
+function countTriangles(document: Document) {
+  const primitives = document.getRoot().listMeshes().flatMap((mesh) => mesh.listPrimitives());
+  return primitives.reduce((n, p) => n + Math.floor(((p.getIndices() ?? p.getAttribute("POSITION"))?.getCount() ?? 0) / 3), 0);
+}
+
+export async function buildLowDetail(root = process.cwd()) {
+  const present = LAYERS.filter((layer) => existsSync(join(root, PUBLIC_DIR, layer.url)));
+  if (present.length === 0) {
+    console.warn(`[low-detail] no layer models in ${PUBLIC_DIR}/models; skipping the low-detail copies`);
+    return [];
+  }
+
+  const stale = present.filter((layer) => {
+    const low = join(root, PUBLIC_DIR, lowDetailUrl(layer.url));
+    return !existsSync(low) || statSync(low).mtimeMs < statSync(join(root, PUBLIC_DIR, layer.url)).mtimeMs;
+  });
+  if (stale.length === 0) return [];
+
+  const io = await createIO();
+  for (const layer of stale) {
+    const document = await io.read(join(root, PUBLIC_DIR, layer.url));
+    const before = countTriangles(document);
+    // welding first lets the simplifier collapse across split vertices
+    await document.transform(weld(), simplify({ simplifier: MeshoptSimplifier, ratio: RATIO, error: ERROR }));
+    await io.write(join(root, PUBLIC_DIR, lowDetailUrl(layer.url)), document);
+    console.log(`[low-detail] ${layer.id}: ${before} -> ${countTriangles(document)} triangles in ${PUBLIC_DIR}${lowDetailUrl(layer.url)}`);
+  }
+  return stale.map((layer) => layer.id);
+}
+
+if (require.main === module) {
+  buildLowDetail().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,162 @@
+// scripts/build-manifest.ts
+// Writes public/models/manifest.json (see lib/modelManifest) from the layer
+// GLBs. Only the glTF JSON is read: node transforms, accessor bounds and
+// counts are enough for boxes, centroids and triangle counts, so compressed
+// models need no decoder here. Run as `npm run manifest` (and before `dev`
+// and `build`) after the content build, whose regions and structures in
+// src/content/generated decide each mesh's region.
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import * as THREE from "three";
+import type { Vec3 } from "../src/lib/annotations";
+import type { RegionContent, StructureContent } from "../src/lib/contentSchema";
+import { LAYERS, lowDetailUrl } from "../src/lib/layers";
+import { matchesAny } from "../src/lib/meshNames";
+import { MODEL_MANIFEST_URL, MODEL_MANIFEST_VERSION, type Bounds, type ManifestLayer, type ManifestMesh, type ModelManifest } from "../src/lib/modelManifest";
+import { readGlb, type GltfJson } from "./glb";
+
+const PUBLIC_DIR = "public";
+const CONTENT_DIR = "src/content/generated";
+
+// divisor that maps a normalized accessor component back to -1..1 / 0..1
+const NORMALIZED: Record<number, number> = { 5120: 127, 5121: 255, 5122: 32767, 5123: 65535 };
+
+// keeps float noise out of the file; well below a millimetre at model scale
+function rounded(v: THREE.Vector3): Vec3 {
+  return [v.x, v.y, v.z].map((c) => Math.round(c * 1e5) / 1e5) as Vec3;
+}
+
+function toBounds(box: THREE.Box3): Bounds {
+  return { min: rounded(box.min), max: rounded(box.max) };
+}
+
+function fromBounds({ min, max }: Bounds) {
+  return new THREE.Box3(new THREE.Vector3().fromArray(min), new THREE.Vector3().fromArray(max));
+}
+
+function nodeMatrix(node: NonNullable<GltfJson["nodes"]>[number]) {
+  if (node.matrix) return new THREE.Matrix4().fromArray(node.matrix);
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3().fromArray(node.translation ?? [0, 0, 0]),
+    new THREE.Quaternion().fromArray(node.rotation ?? [0, 0, 0, 1]),
+    new THREE.Vector3().fromArray(node.scale ?? [1, 1, 1])
+  );
+}
+
+// geometry bounds and triangle count of a glTF mesh, from its accessors
+function measureMesh(gltf: GltfJson, meshIndex: number) {
+  const box = new THREE.Box3();
+  let triangles = 0;
+  for (const primitive of gltf.meshes?.[meshIndex]?.primitives ?? []) {
+    const position = gltf.accessors?.[primitive.attributes.POSITION];
+    if (!position) continue;
+    if (position.min && position.max) {
+      const scale = position.normalized ? 1 / (NORMALIZED[position.componentType] ?? 1) : 1;
+      box.expandByPoint(new THREE.Vector3().fromArray(position.min).multiplyScalar(scale));
+      box.expandByPoint(new THREE.Vector3().fromArray(position.max).multiplyScalar(scale));
+    }
+    const count = primitive.indices !== undefined ? (gltf.accessors?.[primitive.indices]?.count ?? 0) : position.count;
+    const mode = primitive.mode ?? 4;
+    if (mode === 4) triangles += Math.floor(count / 3);
+    else if (mode === 5 || mode === 6) triangles += Math.max(0, count - 2);
+  }
+  return { box, triangles };
+}
+
+function readLayer(gltf: GltfJson, layer: { id: string; url: string }): ManifestLayer {
+  const nodes = gltf.nodes ?? [];
+  const meshes: ManifestMesh[] = [];
+  const layerBox = new THREE.Box3();
+  let layerTriangles = 0;
+
+  const visit = (index: number, parent: THREE.Matrix4, path: string[]) => {
+    const node = nodes[index];
+    if (!node) return;
+    const world = parent.clone().multiply(nodeMatrix(node));
+    if (node.mesh !== undefined) {
+      const { box, triangles } = measureMesh(gltf, node.mesh);
+      const name = node.name || path[path.length - 1];
+      if (name && !box.isEmpty()) {
+        const placed = box.clone().applyMatrix4(world);
+        layerBox.union(placed);
+        layerTriangles += triangles;
+        meshes.push({
+          name,
+          path,
+          bounds: toBounds(box),
+          box: toBounds(placed),
+          centroid: rounded(placed.getCenter(new THREE.Vector3())),
+          triangles,
+          region: null,
+          regionRule: null,
+        });
+      }
+    }
+    const childPath = node.name ? [...path, node.name] : path;
+    for (const child of node.children ?? []) visit(child, world, childPath);
+  };
+
+  const scene = gltf.scenes?.[gltf.scene ?? 0];
+  for (const root of scene?.nodes ?? []) visit(root, new THREE.Matrix4(), []);
+  return { id: layer.id, url: layer.url, box: toBounds(layerBox), triangles: layerTriangles, meshes };
+}
+
+// A mesh's own name, then its ancestors' nearest first, against the
+// structure and region mesh names; failing that, the region whose area holds
+// its centroid, measured against the box of all layers together.
+function assignRegions(layers: ManifestLayer[], regions: RegionContent[], structures: StructureContent[]) {
+  const model = new THREE.Box3();
+  for (const layer of layers) model.union(fromBounds(layer.box));
+  const height = model.max.y - model.min.y || 1;
+  const midX = (model.min.x + model.max.x) / 2;
+  const inSpan = (v: number, span?: number[]) => !span || (v >= span[0] && v <= span[1]);
+
+  for (const mesh of layers.flatMap((l) => l.meshes)) {
+    const names = [mesh.name, ...[...mesh.path].reverse()];
+    const byName = names
+      .map((name) => structures.find((s) => matchesAny(name, s.meshes))?.region ?? regions.find((r) => matchesAny(name, r.meshes))?.id)
+      .find((id) => id !== undefined);
+    if (byName) {
+      mesh.region = byName;
+      mesh.regionRule = "name";
+      continue;
+    }
+    const y = (mesh.centroid[1] - model.min.y) / height;
+    const x = Math.abs(mesh.centroid[0] - midX) / height;
+    const candidates = regions.filter((r) => r.area && inSpan(y, r.area.y) && inSpan(x, r.area.x));
+    const area = candidates.find((r) => r.area?.x) ?? candidates[0];
+    if (area) {
+      mesh.region = area.id;
+      mesh.regionRule = "area";
+    }
+  }
+}
+
+export function buildModelManifest(content: { regions: RegionContent[]; structures: StructureContent[] }, root = process.cwd()) {
+  const present = LAYERS.filter((layer) => existsSync(join(root, PUBLIC_DIR, layer.url)));
+  if (present.length === 0) {
+    console.warn(`[manifest] no layer models in ${PUBLIC_DIR}/models; skipping the model manifest`);
+    return null;
+  }
+
+  // a missing copy would cost low-end devices a failed request before the full model
+  for (const layer of present) {
+    const lowUrl = lowDetailUrl(layer.url);
+    if (!existsSync(join(root, PUBLIC_DIR, lowUrl))) console.warn(`[manifest] ${layer.id}: no low-detail copy at ${PUBLIC_DIR}${lowUrl}; run npm run low-detail`);
+  }
+
+  const layers = present.map((layer) => readLayer(readGlb(join(root, PUBLIC_DIR, layer.url)), layer));
+  assignRegions(layers, content.regions, content.structures);
+  const manifest: ModelManifest = { version: MODEL_MANIFEST_VERSION, layers };
+
+  const path = join(root, PUBLIC_DIR, MODEL_MANIFEST_URL);
+  const json = `${JSON.stringify(manifest)}\n`;
+  if (!existsSync(path) || readFileSync(path, "utf8") !== json) writeFileSync(path, json);
+  return manifest;
+}
+
+if (require.main === module) {
+  const read = (name: string) => JSON.parse(readFileSync(join(process.cwd(), CONTENT_DIR, name), "utf8"));
+  const manifest = buildModelManifest({ regions: read("regions.json"), structures: read("structures.json") });
+  if (manifest) console.log(`[manifest] ${manifest.layers.length} layers written to ${PUBLIC_DIR}${MODEL_MANIFEST_URL}`);
+}
@@ -0,0 +1,23 @@
+// scripts/copy-decoders.mjs
+// Copies the Draco and Basis (KTX2) decoders that ship with three into
+// public/decoders so compressed models load without a CDN. Runs on install;
+// the output is git-ignored and always matches the installed three version.
+import { cpSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const libs = join(root, "node_modules/three/examples/jsm/libs");
+const out = join(root, "public/decoders");
+
+const files = {
+  draco: ["draco/gltf/draco_decoder.js", "draco/gltf/draco_decoder.wasm", "draco/gltf/draco_wasm_wrapper.js"],
+  basis: ["basis/basis_transcoder.js", "basis/basis_transcoder.wasm"],
+};
+
+for (const [dir, list] of Object.entries(files)) {
+  mkdirSync(join(out, dir), { recursive: true });
+  for (const file of list) cpSync(join(libs, file), join(out, dir, file.split("/").pop()));
+}
+
+console.log(`decoders copied to ${out}`);
@@ -0,0 +1,42 @@
+// scripts/glb.ts
+// Reads the glTF JSON out of a binary .glb without decoding any geometry:
+// node names, the hierarchy and accessor bounds are all in the JSON chunk.
+import { readFileSync } from "node:fs";
+
+// GLB header and chunk type of the JSON chunk
+const GLB_MAGIC = 0x46546c67;
+const CHUNK_JSON = 0x4e4f534a;
+
+export type GltfNode = {
+  name?: string;
+  children?: number[];
+  mesh?: number;
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+};
+
+export type GltfPrimitive = { attributes: Record<string, number>; indices?: number; mode?: number };
+
+export type GltfAccessor = { count: number; componentType: number; normalized?: boolean; min?: number[]; max?: number[] };
+
+export type GltfJson = {
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GltfNode[];
+  meshes?: { primitives: GltfPrimitive[] }[];
+  accessors?: GltfAccessor[];
+};
+
+export function readGlb(file: string): GltfJson {
+  const buffer = readFileSync(file);
+  if (buffer.readUInt32LE(0) !== GLB_MAGIC) throw new Error(`${file} is not a binary glTF file`);
+  const length = buffer.readUInt32LE(12);
+  if (buffer.readUInt32LE(16) !== CHUNK_JSON) throw new Error(`${file} has no JSON chunk`);
+  return JSON.parse(buffer.toString("utf8", 20, 20 + length));
+}
+
+export function readGlbNodeNames(file: string) {
+  return (readGlb(file).nodes ?? []).flatMap((node) => (node.name ? [node.name] : []));
+}
@@ -0,0 +1,63 @@
+// app/[locale]/layout.tsx
+// Root layout per locale, so <html lang> follows the active language.
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Geist, Geist_Mono } from "next/font/google";
+import I18nProvider from "@/components/I18nProvider";
+import { LOCALES, getMessages, isLocale, localePath } from "@/lib/i18n";
+import "../globals.css";
+
+const geistSans = Geist({
+  variable: "--font-geist-sans",
+  subsets: ["latin"],
+});
+
+const geistMono = Geist_Mono({
+  variable: "--font-geist-mono",
+  subsets: ["latin"],
+});
+
+type Params = { locale: string };
+
+export const dynamicParams = false;
+
+export function generateStaticParams(): Params[] {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({ params }: { params: Promise<Params> }): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+  const m = getMessages(locale);
+  return {
+    title: {
+      default: m.meta.title,
+      template: `%s · ${m.meta.title}`,
+    },
+    description: m.meta.description,
+    alternates: {
+      languages: Object.fromEntries(LOCALES.map((l) => [l, localePath(l)])),
+    },
+  };
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<Params>;
+}>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <html lang={locale}>
+      <body
+        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+      >
+        <I18nProvider locale={locale}>{children}</I18nProvider>
+      </body>
+    </html>
+  );
+}
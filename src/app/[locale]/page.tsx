@@ -0,0 +1,11 @@
+// app/[locale]/page.tsx
+import { Suspense } from "react";
+import AnatomyExplorer from "@/components/AnatomyExplorer";
+
+export default function Page() {
+  return (
+    <Suspense>
+      <AnatomyExplorer />
+    </Suspense>
+  );
+}
@@ -0,0 +1,44 @@
+// app/[locale]/region/[slug]/[structure]/page.tsx
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Suspense } from "react";
+import AnatomyExplorer from "@/components/AnatomyExplorer";
+import { isLocale, localize } from "@/lib/i18n";
+import { findRegion } from "@/lib/regions";
+import { STRUCTURES, findStructure } from "@/lib/structures";
+
+type Params = { locale: string; slug: string; structure: string };
+
+export const dynamicParams = false;
+
+// the locale segment comes from the parent layout's params
+export function generateStaticParams(): Omit<Params, "locale">[] {
+  return STRUCTURES.map((s) => ({ slug: s.region, structure: s.id }));
+}
+
+function resolve({ slug, structure }: Omit<Params, "locale">) {
+  const region = findRegion(slug);
+  const found = findStructure(structure);
+  return region && found && found.region === region.id ? { region, structure: found } : null;
+}
+
+export async function generateMetadata({ params }: { params: Promise<Params> }): Promise<Metadata> {
+  const { locale, ...rest } = await params;
+  const resolved = resolve(rest);
+  if (!resolved || !isLocale(locale)) return {};
+  return {
+    title: `${localize(resolved.structure.name, locale)} · ${localize(resolved.region.title, locale)}`,
+    description: localize(resolved.structure.description, locale),
+  };
+}
+
+export default async function StructurePage({ params }: { params: Promise<Params> }) {
+  const resolved = resolve(await params);
+  if (!resolved) notFound();
+
+  return (
+    <Suspense>
+      <AnatomyExplorer initialRegion={resolved.region.id} initialStructure={resolved.structure.id} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,34 @@
+// app/[locale]/region/[slug]/page.tsx
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Suspense } from "react";
+import AnatomyExplorer from "@/components/AnatomyExplorer";
+import { isLocale, localize } from "@/lib/i18n";
+import { REGIONS, findRegion } from "@/lib/regions";
+
+type Params = { locale: string; slug: string };
+
+export const dynamicParams = false;
+
+// the locale segment comes from the parent layout's params
+export function generateStaticParams(): Omit<Params, "locale">[] {
+  return REGIONS.map((r) => ({ slug: r.id }));
+}
+
+export async function generateMetadata({ params }: { params: Promise<Params> }): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const region = findRegion(slug);
+  if (!region || !isLocale(locale)) return {};
+  return { title: localize(region.title, locale), description: localize(region.description, locale) };
+}
+
+export default async function RegionPage({ params }: { params: Promise<Params> }) {
+  const { slug } = await params;
+  if (!findRegion(slug)) notFound();
+
+  return (
+    <Suspense>
+      <AnatomyExplorer initialRegion={slug} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,489 @@
+// components/AnatomyExplorer.tsx
+"use client";
+
+import React, { Suspense, useCallback, useMemo, useRef, useState, useEffect, useSyncExternalStore } from "react";
+import { Canvas } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import { useSearchParams } from "next/navigation";
+import AnimationPanel, { useAnimationPlayer } from "@/components/AnimationPanel";
+import AnnotationAuthoring from "@/components/AnnotationAuthoring";
+import ComparePanel, { useCompareView } from "@/components/ComparePanel";
+import ControlsPanel from "@/components/ControlsPanel";
+import CompareViewport from "@/components/CompareViewport";
+import DebugPanel, { type DebugSettings } from "@/components/DebugPanel";
+import { isLowEndDevice, useWebGLSupport } from "@/components/deviceSupport";
+import ExplodePanel, { type ExplodeSettings } from "@/components/ExplodePanel";
+import ExportPanel from "@/components/ExportPanel";
+import { saveGestureSettings, useGestureSettings } from "@/components/gestureSettings";
+import { useI18n } from "@/components/I18nProvider";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import LayerPanel from "@/components/LayerPanel";
+import LoadingScreen from "@/components/LoadingScreen";
+import MeasurePanel, { useMeasureTool } from "@/components/MeasurePanel";
+import { useModelManifest } from "@/components/modelManifest";
+import ModelKeyboard from "@/components/ModelKeyboard";
+import QuizPanel, { useQuizSession } from "@/components/QuizPanel";
+import RegionCard from "@/components/RegionCard";
+import RegionOverview from "@/components/RegionOverview";
+import RenderPanel, { type RenderSettings } from "@/components/RenderPanel";
+import SectionPanel from "@/components/SectionPanel";
+import { clearModel, initDecoders, preloadModel, type LoadFailure } from "@/components/scene/loaders";
+import type { SceneCapture } from "@/components/scene/SceneExporter";
+import SceneWithAutoTargets from "@/components/scene/SceneWithAutoTargets";
+import { scrollToProgress, useScrollProgress } from "@/components/scrollProgress";
+import StructurePanel from "@/components/StructurePanel";
+import StillView, { CanvasErrorBoundary } from "@/components/StillView";
+import StructureSearch from "@/components/StructureSearch";
+import TourPanel, { useTourPlayer } from "@/components/TourPanel";
+import useGestures, { newViewControl, type ViewControl } from "@/components/useGestures";
+import useReducedMotion from "@/components/useReducedMotion";
+import { createViewPose, type ViewPoseStore } from "@/components/viewPose";
+import type { AnnotationDraft } from "@/lib/annotations";
+import { LAYERS, layerSettingsFromVisible, layerUrl, lowDetailUrl, type LayerSettings, type LayerStatus } from "@/lib/layers";
+import type { ModelMesh } from "@/lib/modelManifest";
+import type { SectionState } from "@/lib/sections";
+import { REGIONS, findRegion, regionIndexAtScroll, regionScrollOffset } from "@/lib/regions";
+import { CAMERA_FOV } from "@/lib/sceneConfig";
+import { describeMesh, findStructure, findStructureByMesh } from "@/lib/structures";
+import { decodeViewState, encodeViewState, withToolFlags } from "@/lib/viewState";
+
+const hundredths = (v: number) => Math.round(v * 100) / 100;
+
+function RotateBadge({ pose }: { pose: ViewPoseStore }) {
+  // every frame, but only while debugging
+  const { user: userRotation, applied: appliedRotation } = useSyncExternalStore(pose.subscribe, pose.get, pose.get);
+  const degRaw = (userRotation * 180) / Math.PI;
+  const degApplied = (appliedRotation * 180) / Math.PI;
+  const degAppliedNorm = ((Math.round(degApplied) % 360) + 360) % 360;
+  const turnsRaw = Math.round((userRotation / (Math.PI * 2)) * 100) / 100;
+  const turnsApplied = Math.round((appliedRotation / (Math.PI * 2)) * 100) / 100;
+  const radRaw = Math.round(userRotation * 100) / 100;
+  const radApplied = Math.round(appliedRotation * 100) / 100;
+
+  return (
+    <div
+      className="fixed bottom-20 right-6 z-20 text-sm text-white/80"
+      style={{
+        background: "rgba(0,0,0,0.55)",
+        padding: "6px 10px",
+        borderRadius: 8,
+        minWidth: 180,
+        textAlign: "center",
+      }}
+    >
+      <div style={{ fontWeight: 700 }}>{degAppliedNorm}°</div>
+      <div style={{ fontSize: 11, opacity: 0.9 }}>applied turns: {turnsApplied}</div>
+      <div style={{ fontSize: 11, opacity: 0.9 }}>raw turns: {turnsRaw}</div>
+      <div style={{ fontSize: 11, opacity: 0.9 }}>raw rad: {radRaw} · applied rad: {radApplied}</div>
+    </div>
+  );
+}
+
+function ScrollBadge() {
+  const { m } = useI18n();
+  // whole percents: re-renders at most a hundred times over the page
+  const percent = useScrollProgress((p) => Math.round(p * 100));
+
+  return (
+    <div
+      className="fixed bottom-6 right-6 z-20 text-sm text-white/80"
+      style={{
+        background: "rgba(0,0,0,0.55)",
+        padding: "6px 10px",
+        borderRadius: 8,
+        minWidth: 110,
+        textAlign: "center",
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>{percent}%</div>
+      <div style={{ fontSize: 11, opacity: 0.85 }}>{m.scene.scrolled}</div>
+    </div>
+  );
+}
+
+// The full-page 3D explorer. Route pages pass the region / structure to
+// open on; view state from the URL query (see lib/viewState) wins over both.
+export default function AnatomyExplorer({ initialRegion, initialStructure }: { initialRegion?: string; initialStructure?: string }) {
+  const { locale, m } = useI18n();
+  const searchParams = useSearchParams();
+  const [initialView] = useState(() => decodeViewState(searchParams));
+  const [annotating] = useState(() => searchParams.get("annotate") === "1");
+  // developer readouts, gizmos and live tuning
+  const [debugging] = useState(() => searchParams.get("debug") === "1");
+  const [debug, setDebug] = useState<DebugSettings>({ bbox: false, targets: false });
+  const [annotationDraft, setAnnotationDraft] = useState<AnnotationDraft | null>(null);
+  // DOM layer the annotation pins render into, above <main> so they get clicks
+  const pinLayerRef = useRef<HTMLDivElement>(null);
+  // offscreen renderer for screenshots and handouts, provided by the scene
+  const captureRef = useRef<SceneCapture>(null);
+  const routeRegion = findRegion(initialRegion);
+  const startRegion = initialView.region ?? initialRegion ?? findStructure(initialStructure)?.region ?? REGIONS[0].id;
+  // structure route waiting for the model's node names to resolve to a mesh
+  const pendingStructure = useRef(initialView.focus ? null : initialStructure ?? null);
+
+  // applied every frame by the scene; read here in hundredths for the URL
+  const [pose] = useState(() =>
+    createViewPose({ user: initialView.rotation ?? 0, pitch: initialView.pitch ?? 0, zoom: initialView.zoom ?? 1, pan: initialView.pan ?? [0, 0] })
+  );
+  const userRotation = useSyncExternalStore(pose.subscribe, () => hundredths(pose.get().user), () => hundredths(pose.get().user));
+  const pitch = useSyncExternalStore(pose.subscribe, () => hundredths(pose.get().pitch), () => hundredths(pose.get().pitch));
+  const zoom = useSyncExternalStore(pose.subscribe, () => hundredths(pose.get().zoom), () => hundredths(pose.get().zoom));
+  const panX = useSyncExternalStore(pose.subscribe, () => hundredths(pose.get().pan[0]), () => hundredths(pose.get().pan[0]));
+  const panY = useSyncExternalStore(pose.subscribe, () => hundredths(pose.get().pan[1]), () => hundredths(pose.get().pan[1]));
+  // region the scroll-driven camera is on; changes only when the index does
+  const activeRegion = useScrollProgress(regionIndexAtScroll);
+  const [selectedName, setSelectedName] = useState<string | null>(initialView.selected ?? null);
+  const selectedInfo = useMemo(() => (selectedName ? describeMesh(selectedName, locale) : null), [selectedName, locale]);
+  // structure the camera is flying to / framing (set by search)
+  const [focusName, setFocusName] = useState<string | null>(initialView.focus ?? null);
+  // searchable meshes of the visible layers, with their regions, as the scene reports them
+  const [sceneMeshes, setSceneMeshes] = useState<ModelMesh[]>([]);
+  const [layers, setLayers] = useState<LayerSettings>(() => layerSettingsFromVisible(initialView.layers));
+  const [layerStatus, setLayerStatus] = useState<Record<string, LayerStatus>>(() =>
+    Object.fromEntries(LAYERS.filter((l) => layers[l.id]?.visible).map((l) => [l.id, "loading" as const]))
+  );
+
+  const [sections, setSections] = useState<SectionState>(initialView.sections ?? {});
+  // structure reached with ]/[ on the model, outlined in the scene
+  const [keyboardName, setKeyboardName] = useState<string | null>(null);
+  const reducedMotion = useReducedMotion();
+  const [explode, setExplode] = useState<ExplodeSettings>({ amount: 0, grouped: false, regionOnly: true });
+  const [render, setRender] = useState<RenderSettings>({ mode: "standard", effect: "none", lighting: "studio" });
+  const [layerFailures, setLayerFailures] = useState<Record<string, LoadFailure>>({});
+  const [layerAttempts, setLayerAttempts] = useState<Record<string, number>>({});
+  const webgl = useWebGLSupport();
+  const manifest = useModelManifest();
+  // low-detail models on weak devices, or once rendering proves too slow
+  const [lowDetail, setLowDetail] = useState(isLowEndDevice);
+  // layers whose low-detail copy wasn't built (next dev run on its own) load the full model
+  const [fullDetail, setFullDetail] = useState<Record<string, boolean>>({});
+  const layerUrls = useMemo(() => Object.fromEntries(LAYERS.map((l) => [l.id, layerUrl(l, lowDetail && !fullDetail[l.id])])), [lowDetail, fullDetail]);
+  // the renderer exists and the KTX2 loader knows what it can decode
+  const [canvasReady, setCanvasReady] = useState(false);
+  // without WebGL the manifest alone lists the meshes, for search and the panels
+  const listedMeshes = useMemo(() => {
+    const listed = (manifest?.layers ?? []).filter((l) => layers[l.id]?.visible).flatMap((l) => l.meshes);
+    return Array.from(new Map(listed.map(({ name, region }) => [name, { name, region }])).values());
+  }, [manifest, layers]);
+  const modelMeshes = webgl ? sceneMeshes : listedMeshes;
+  const nodeNames = useMemo(() => modelMeshes.map((m) => m.name), [modelMeshes]);
+  // the structure route opens on its mesh once the manifest lists it
+  const [stillStructure, setStillStructure] = useState(initialView.focus ? null : initialStructure ?? null);
+  if (!webgl && stillStructure && listedMeshes.length) {
+    setStillStructure(null);
+    const mesh = listedMeshes.find((m) => findStructureByMesh(m.name)?.id === stillStructure);
+    if (mesh) setSelectedName(mesh.name);
+  }
+
+  const updateLayerStatus = useCallback((id: string, status: LayerStatus, failure?: LoadFailure) => {
+    if (failure?.kind === "missing" && LAYERS.some((l) => l.id === id && failure.url === lowDetailUrl(l.url))) {
+      setFullDetail((f) => ({ ...f, [id]: true }));
+      return;
+    }
+    setLayerStatus((s) => (s[id] === status ? s : { ...s, [id]: status }));
+    if (failure) setLayerFailures((f) => ({ ...f, [id]: failure }));
+  }, []);
+
+  // fetch the shown layers as soon as they can be decoded, ahead of the
+  // scene suspending on them; devices without WebGL never download a model
+  useEffect(() => {
+    if (!webgl || !canvasReady) return;
+    for (const layer of LAYERS) if (layers[layer.id]?.visible) preloadModel(layerUrls[layer.id]);
+  }, [webgl, canvasReady, layers, layerUrls]);
+
+  const retryLayer = useCallback((id: string) => {
+    const layer = LAYERS.find((l) => l.id === id);
+    if (!layer) return;
+    clearModel(layerUrls[id] ?? layer.url);
+    setLayerStatus((s) => ({ ...s, [id]: "loading" }));
+    setLayerAttempts((a) => ({ ...a, [id]: (a[id] ?? 0) + 1 }));
+  }, [layerUrls]);
+
+  // a layer that is shown before it has loaded is loading
+  const changeLayers = useCallback((next: LayerSettings) => {
+    setLayers(next);
+    setLayerStatus((s) => {
+      const pending = Object.keys(next).filter((id) => next[id].visible && !s[id]);
+      return pending.length ? { ...s, ...Object.fromEntries(pending.map((id) => [id, "loading" as const])) } : s;
+    });
+  }, []);
+
+  const selectStructure = useCallback((name: string | null) => {
+    setSelectedName(name);
+    setFocusName(null);
+  }, []);
+
+  // the canvas wrapper: gestures only start on the model, never on the page UI
+  const viewRef = useRef<HTMLDivElement>(null);
+  // dragging, zooming or resetting the view hands the camera back to the user
+  const releaseFocus = useCallback(() => setFocusName(null), []);
+  // the gesture camera, starting from a shared link's
+  const viewControl = useRef<ViewControl>(newViewControl({ pitch: pose.get().pitch, zoom: pose.get().zoom, pan: [...pose.get().pan] }));
+  const gestureSettings = useGestureSettings();
+  const gestures = useGestures(viewRef, { settings: gestureSettings, onInteract: releaseFocus, control: viewControl });
+
+  const focusStructure = useCallback((name: string) => {
+    pendingStructure.current = null;
+    setSelectedName(name);
+    setFocusName(name);
+  }, []);
+
+  const meshForStructure = useCallback(
+    (structureId: string) => nodeNames.find((n) => findStructureByMesh(n)?.id === structureId) ?? null,
+    [nodeNames]
+  );
+
+  const quiz = useQuizSession(modelMeshes);
+  const tour = useTourPlayer();
+  const measure = useMeasureTool(initialView);
+  const compare = useCompareView();
+  const animation = useAnimationPlayer();
+  const sceneAnimation = useMemo(
+    () => ({ clip: animation.clip?.key ?? null, clock: animation.clock, colorCode: animation.colorCode, onClips: animation.setClips }),
+    [animation.clip, animation.clock, animation.colorCode, animation.setClips]
+  );
+  const measuring = measure.open && !quiz.active && !tour.active;
+  const sceneMeasure = useMemo(
+    () => ({ active: measuring, measurements: measure.shown, bodyHeight: measure.bodyHeight }),
+    [measuring, measure.shown, measure.bodyHeight]
+  );
+
+  // model clicks answer find-questions while a quiz runs; the ref keeps the
+  // callback handed to the scene stable so its pointer listeners survive renders
+  const pickHandler = useRef<(name: string | null) => void>(selectStructure);
+  useEffect(() => {
+    pickHandler.current = quiz.active ? quiz.answerPick : selectStructure;
+  });
+  const handlePick = useCallback((name: string | null) => pickHandler.current(name), []);
+  // Enter on the model: answers a find-question, otherwise flies to the structure
+  const handleKeyboardSelect = (name: string) => (quiz.active ? quiz.answerPick(name) : focusStructure(name));
+
+  const handleNodesReady = useCallback(
+    (meshes: ModelMesh[]) => {
+      setSceneMeshes(meshes);
+      const pending = pendingStructure.current;
+      const mesh = pending ? meshes.find((m) => findStructureByMesh(m.name)?.id === pending) : null;
+      if (mesh) focusStructure(mesh.name);
+    },
+    [focusStructure]
+  );
+
+  const availableStructures = useMemo(
+    () => new Set(nodeNames.map((n) => findStructureByMesh(n)?.id).filter((id): id is string => !!id)),
+    [nodeNames]
+  );
+
+  const handleApplyRotation = useCallback(
+    (applied: number, user: number) => {
+      const { pitch, zoom, pan } = viewControl.current;
+      pose.set({ applied, user, pitch, zoom, pan });
+    },
+    [pose]
+  );
+
+  // the scroll-driven camera rests on a region at its scroll offset
+  const scrollToRegion = useCallback((index: number, behavior: ScrollBehavior) => scrollToProgress(regionScrollOffset(index), behavior), []);
+
+  // open framed on the start region
+  useEffect(() => {
+    const index = REGIONS.findIndex((r) => r.id === startRegion);
+    if (index > 0) scrollToRegion(index, "instant");
+  }, [startRegion, scrollToRegion]);
+
+  const viewQuery = useMemo(() => {
+    const regionId = REGIONS[activeRegion]?.id ?? null;
+    const query = encodeViewState({
+      rotation: userRotation,
+      pitch,
+      zoom,
+      pan: [panX, panY],
+      region: regionId !== (initialRegion ?? REGIONS[0].id) ? regionId : null,
+      focus: focusName,
+      selected: selectedName,
+      layers: LAYERS.filter((l) => layers[l.id]?.visible).map((l) => l.id),
+      sections,
+      measurements: measure.measurements,
+      bodyHeight: measure.bodyHeight,
+    });
+    return withToolFlags(query, searchParams);
+  }, [userRotation, pitch, zoom, panX, panY, activeRegion, focusName, selectedName, layers, sections, measure.measurements, measure.bodyHeight, initialRegion, searchParams]);
+
+  // mirror the view into the URL so it can be shared; debounced because
+  // rotation changes every frame while dragging
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const url = `${window.location.pathname}${viewQuery ? `?${viewQuery}` : ""}${window.location.hash}`;
+      window.history.replaceState(window.history.state, "", url);
+    }, 400);
+    return () => window.clearTimeout(timer);
+  }, [viewQuery]);
+
+  useEffect(() => {
+    const sh = document.documentElement.scrollHeight;
+    const wh = window.innerHeight;
+    if (sh <= wh) {
+      document.body.style.minHeight = `150vh`;
+    }
+  }, []);
+
+  return (
+    <div className="min-h-screen relative">
+      {webgl ? (
+        <>
+          <ModelKeyboard
+            ref={viewRef}
+            meshes={modelMeshes}
+            activeRegion={activeRegion}
+            rotation={userRotation}
+            selectedName={selectedName}
+            onRotate={gestures.rotateBy}
+            onPitch={gestures.pitchBy}
+            onZoom={gestures.zoomBy}
+            onRegion={(index) => scrollToRegion(index, reducedMotion ? "instant" : "smooth")}
+            onSelect={handleKeyboardSelect}
+            onClear={() => selectStructure(null)}
+            onCursor={setKeyboardName}
+            split={compare.open}
+          >
+            <CanvasErrorBoundary>
+              <Canvas
+                camera={{ position: [0, 1.6, 4], fov: CAMERA_FOV }}
+                className="w-full h-full"
+                // stencil for the section caps, local clipping for the section planes
+                gl={{ stencil: true, localClippingEnabled: true }}
+                onCreated={({ gl }) => {
+                  initDecoders(gl);
+                  setCanvasReady(true);
+                }}
+              >
+                <Suspense fallback={<Html center>{m.scene.loading}</Html>}>
+                  <SceneWithAutoTargets
+                    control={gestures.control}
+                    restoreYaw={initialView.rotation ?? null}
+                    onApplyRotation={handleApplyRotation}
+                    selectedName={quiz.active || tour.active ? null : selectedName}
+                    onSelect={handlePick}
+                    focusName={quiz.active ? quiz.highlightName : focusName}
+                    quizName={quiz.highlightName}
+                    keyboardName={keyboardName}
+                    tourPose={tour.poseRef}
+                    tourHighlights={tour.highlights}
+                    onNodesReady={handleNodesReady}
+                    layers={layers}
+                    onLayerStatus={updateLayerStatus}
+                    layerAttempts={layerAttempts}
+                    sections={sections}
+                    explode={{ ...explode, regionId: explode.regionOnly ? (REGIONS[activeRegion]?.id ?? null) : null }}
+                    showAnnotations={!quiz.active}
+                    pinPortal={pinLayerRef}
+                    annotating={annotating && !quiz.active}
+                    annotationDraft={annotationDraft}
+                    onAnnotate={setAnnotationDraft}
+                    debug={debugging ? debug : null}
+                    exporter={captureRef}
+                    measure={sceneMeasure}
+                    onMeasurePoint={measure.addPoint}
+                    onMeasured={measure.setValues}
+                    animation={sceneAnimation}
+                    render={render}
+                    layerUrls={layerUrls}
+                    playing={tour.playing || animation.playing}
+                    onSlow={() => setLowDetail(true)}
+                  />
+                </Suspense>
+              </Canvas>
+            </CanvasErrorBoundary>
+          </ModelKeyboard>
+          {compare.open && (
+            <CompareViewport
+              compare={compare}
+              control={gestures.control}
+              restoreYaw={userRotation}
+              selectedName={quiz.active || tour.active ? null : selectedName}
+              focusName={quiz.active ? quiz.highlightName : focusName}
+              onSelect={handlePick}
+              onInteract={releaseFocus}
+              tourPose={tour.poseRef}
+              lighting={render.lighting}
+              layerUrls={layerUrls}
+              playing={tour.playing}
+            />
+          )}
+        </>
+      ) : (
+        <StillView activeRegion={activeRegion} />
+      )}
+
+      {/* lets presses through to the canvas below except on its own UI */}
+      <main className="relative z-10 text-white pointer-events-none">
+        <header className="p-6 pointer-events-auto">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-semibold">{m.header.title}</h1>
+            <LanguageSwitcher viewQuery={viewQuery} />
+          </div>
+          <p className="text-sm text-white/80">{m.header.hint}</p>
+        </header>
+
+        {REGIONS.map((region) => (
+          <section key={region.id} className="h-screen flex items-center justify-center">
+            <RegionCard region={region} />
+          </section>
+        ))}
+
+        <div className="h-40" />
+      </main>
+
+      <div ref={pinLayerRef} className="fixed inset-0 z-10 pointer-events-none" />
+
+      {/* the tools all work on the 3D view */}
+      {webgl && (
+        <>
+          <LoadingScreen
+            settings={layers}
+            urls={layerUrls}
+            status={layerStatus}
+            failures={layerFailures}
+            onRetry={retryLayer}
+            onHide={(id) => changeLayers({ ...layers, [id]: { ...layers[id], visible: false } })}
+          />
+          {/* the view panels share a row along the bottom that wraps on narrow
+              screens, above the scroll badge on phones and beside it otherwise */}
+          <div className="fixed bottom-20 left-6 right-6 z-20 flex max-h-[50vh] flex-wrap items-end gap-3 overflow-y-auto pointer-events-none *:pointer-events-auto sm:bottom-6 sm:right-40">
+            <LayerPanel settings={layers} status={layerStatus} onChange={changeLayers} />
+            <SectionPanel sections={sections} onChange={setSections} />
+            <ExplodePanel settings={explode} onChange={setExplode} />
+            <ExportPanel capture={captureRef} />
+            <RenderPanel settings={render} onChange={setRender} />
+            <ControlsPanel settings={gestureSettings} onChange={saveGestureSettings} />
+          </div>
+          {!tour.active && !measure.open && !animation.open && <QuizPanel quiz={quiz} />}
+          {!quiz.active && !measure.open && !animation.open && <TourPanel player={tour} />}
+          {!quiz.active && !tour.active && !animation.open && <MeasurePanel tool={measure} />}
+          {!quiz.active && !tour.active && !measure.open && <AnimationPanel player={animation} />}
+          <ComparePanel
+            compare={compare}
+            activeRegion={activeRegion}
+            selectedName={selectedName}
+            canStart={!quiz.active && !tour.active && !measure.open && !animation.open}
+          />
+        </>
+      )}
+      {!quiz.active && <StructureSearch nodeNames={nodeNames} onSelect={focusStructure} />}
+      {!quiz.active && <StructurePanel info={selectedInfo} onClose={() => selectStructure(null)} />}
+      {!quiz.active && !selectedInfo && routeRegion && (
+        <RegionOverview
+          region={routeRegion}
+          available={availableStructures}
+          onFocusStructure={(id) => {
+            const mesh = meshForStructure(id);
+            if (mesh) focusStructure(mesh);
+          }}
+        />
+      )}
+      {annotating && !quiz.active && <AnnotationAuthoring draft={annotationDraft} onClear={() => setAnnotationDraft(null)} />}
+      <ScrollBadge />
+      {debugging && <RotateBadge pose={pose} />}
+      {debugging && <DebugPanel settings={debug} onChange={setDebug} />}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+// components/AnimationPanel.tsx
+import React, { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { createPlaybackClock } from "@/components/playbackClock";
+import type { AnimationClipInfo } from "@/components/scene/AnimationClips";
+import { format, localize } from "@/lib/i18n";
+import { LAYERS } from "@/lib/layers";
+import { LENGTHENING_COLOR, SHORTENING_COLOR } from "@/lib/sceneConfig";
+
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+
+// Animation clip playback state. Lives in the explorer because the scene
+// lists the clips of the loaded layers and poses the model at the clock's time.
+export function useAnimationPlayer() {
+  // clips of the visible layers, reported by the scene
+  const [clips, setClips] = useState<AnimationClipInfo[]>([]);
+  const [open, setOpen] = useState(false);
+  const [clipKey, setClipKey] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [loop, setLoop] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [colorCode, setColorCode] = useState(false);
+  const [clock] = useState(createPlaybackClock);
+
+  // a clip whose layer was hidden is gone
+  const clip = (open && clips.find((c) => c.key === clipKey)) || null;
+
+  useEffect(() => {
+    if (!clip || !playing) return;
+    let rafId: number | null = null;
+    let last: number | null = null;
+
+    const tick = (now: number) => {
+      const dt = last === null ? 0 : ((now - last) / 1000) * speed;
+      last = now;
+      let time = clock.get() + dt;
+      if (time >= clip.duration) {
+        if (!loop) {
+          clock.set(clip.duration);
+          setPlaying(false);
+          rafId = null;
+          return;
+        }
+        time = clip.duration > 0 ? time % clip.duration : 0;
+      }
+      clock.set(time);
+      rafId = requestAnimationFrame(tick);
+    };
+
+    rafId = requestAnimationFrame(tick);
+    return () => {
+      if (rafId != null) cancelAnimationFrame(rafId);
+    };
+  }, [clip, playing, loop, speed, clock]);
+
+  const select = useCallback(
+    (key: string) => {
+      setClipKey(key);
+      clock.set(0);
+    },
+    [clock]
+  );
+
+  return {
+    open,
+    clips,
+    clip,
+    playing: playing && !!clip,
+    loop,
+    speed,
+    colorCode,
+    clock,
+    // the first clip is ready to play as soon as the panel opens
+    start: () => {
+      setOpen(true);
+      if (!clips.some((c) => c.key === clipKey) && clips.length > 0) select(clips[0].key);
+    },
+    stop: () => {
+      setOpen(false);
+      setPlaying(false);
+      setClipKey(null);
+    },
+    select,
+    play: () => {
+      // playing from the end starts over
+      if (clip && clock.get() >= clip.duration) clock.set(0);
+      setPlaying(true);
+    },
+    pause: () => setPlaying(false),
+    seek: (time: number) => clock.set(Math.min(Math.max(time, 0), clip?.duration ?? 0)),
+    setLoop,
+    setSpeed,
+    setColorCode,
+    setClips,
+  };
+}
+
+export type AnimationPlayer = ReturnType<typeof useAnimationPlayer>;
+
+const buttonClass = "px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition";
+const selectClass = "px-2 py-1 text-xs text-white bg-black/40 border border-white/10 rounded-md";
+
+export default function AnimationPanel({ player }: { player: AnimationPlayer }) {
+  const { locale, m } = useI18n();
+  const { clock, clip } = player;
+  // hundredths: clips are short
+  const time = useSyncExternalStore(
+    clock.subscribe,
+    () => Math.round(clock.get() * 100) / 100,
+    () => 0
+  );
+
+  // models without clips get no panel
+  if (player.clips.length === 0) return null;
+
+  if (!player.open) {
+    return (
+      <div data-ui className="fixed top-72 left-6 z-20">
+        <button type="button" className={`${buttonClass} text-white bg-black/60 backdrop-blur-md`} onClick={player.start}>
+          {m.animation.open}
+        </button>
+      </div>
+    );
+  }
+
+  const clipsByLayer = LAYERS.map((layer) => ({ layer, clips: player.clips.filter((c) => c.layerId === layer.id) })).filter((g) => g.clips.length > 0);
+
+  return (
+    <section data-ui aria-label={m.animation.title} className="fixed top-24 left-6 z-20 w-72 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">{m.animation.title}</h2>
+        <button type="button" className="text-xs text-white/70 hover:text-white" onClick={player.stop}>
+          {m.animation.close}
+        </button>
+      </div>
+
+      <select aria-label={m.animation.clip} className={`mt-2 w-full ${selectClass}`} value={clip?.key ?? ""} onChange={(e) => player.select(e.target.value)}>
+        {!clip && <option value="">{m.animation.choose}</option>}
+        {clipsByLayer.map(({ layer, clips }) => (
+          <optgroup key={layer.id} label={localize(layer.label, locale)}>
+            {clips.map((c, i) => (
+              <option key={c.key} value={c.key}>
+                {c.name || format(m.animation.untitled, { index: i + 1 })}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+
+      <div className="mt-3 flex items-center gap-2">
+        <button type="button" disabled={!clip} className={`${buttonClass} disabled:opacity-50`} onClick={player.playing ? player.pause : player.play}>
+          {player.playing ? m.animation.pause : m.animation.play}
+        </button>
+        <span className="text-xs tabular-nums text-white/70">
+          {format(m.animation.time, { current: time.toFixed(2), total: (clip?.duration ?? 0).toFixed(2) })}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={clip?.duration ?? 0}
+        step={0.01}
+        value={time}
+        disabled={!clip}
+        aria-label={m.animation.seek}
+        className="mt-2 w-full accent-indigo-500"
+        onChange={(e) => player.seek(Number(e.target.value))}
+      />
+
+      <div className="mt-2 flex items-center gap-3">
+        <label className="flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={player.loop} onChange={(e) => player.setLoop(e.target.checked)} />
+          {m.animation.loop}
+        </label>
+        <select aria-label={m.animation.speed} className={`ml-auto ${selectClass}`} value={player.speed} onChange={(e) => player.setSpeed(Number(e.target.value))}>
+          {SPEEDS.map((speed) => (
+            <option key={speed} value={speed}>
+              {format(m.animation.speedValue, { speed })}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className="mt-2 flex items-center gap-2 text-xs">
+        <input type="checkbox" checked={player.colorCode} onChange={(e) => player.setColorCode(e.target.checked)} />
+        {m.animation.colorCode}
+      </label>
+      {player.colorCode && (
+        <p className="mt-1 flex gap-3 text-[11px] text-white/70">
+          <span style={{ color: SHORTENING_COLOR }}>■ {m.animation.shortening}</span>
+          <span style={{ color: LENGTHENING_COLOR }}>■ {m.animation.lengthening}</span>
+        </p>
+      )}
+    </section>
+  );
+}
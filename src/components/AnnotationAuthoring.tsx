@@ -0,0 +1,48 @@
+// components/AnnotationAuthoring.tsx
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { annotationSnippet, type AnnotationDraft } from "@/lib/annotations";
+
+// Authoring panel for ?annotate=1: shows the last clicked surface point as a
+// snippet ready to paste into ANNOTATIONS (lib/annotations.ts).
+export default function AnnotationAuthoring({ draft, onClear }: { draft: AnnotationDraft | null; onClear: () => void }) {
+  const { m } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const snippet = draft ? annotationSnippet(draft) : "";
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {}
+  };
+
+  return (
+    <section
+      data-ui
+      aria-label={m.annotations.authoring}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 w-96 max-w-[calc(100vw-3rem)] px-4 py-3 text-white bg-black/60 border border-amber-400/40 rounded-2xl backdrop-blur-md"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">{m.annotations.authoring}</h2>
+        {draft && (
+          <button type="button" className="text-xs text-white/70 hover:text-white" onClick={onClear}>
+            {m.annotations.clear}
+          </button>
+        )}
+      </div>
+
+      {!draft && <p className="mt-2 text-xs text-white/70">{m.annotations.hint}</p>}
+
+      {draft && (
+        <>
+          <pre className="mt-2 max-h-48 overflow-auto p-2 text-[11px] font-mono bg-black/40 border border-white/10 rounded-md">{snippet}</pre>
+          <button type="button" className="mt-2 px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition" onClick={copy}>
+            {copied ? m.annotations.copied : m.annotations.copy}
+          </button>
+        </>
+      )}
+    </section>
+  );
+}
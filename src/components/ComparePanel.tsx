@@ -0,0 +1,115 @@
+// components/ComparePanel.tsx
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { localize } from "@/lib/i18n";
+import { LAYERS_BY_PEEL, layerSettingsFromVisible, type LayerSettings } from "@/lib/layers";
+import { REGIONS } from "@/lib/regions";
+
+// layers the comparison viewport opens with, next to the default muscles
+const DEFAULT_COMPARE_LAYERS = ["skeleton"];
+
+// Comparison view state. Linked, the second viewport shares the main view's
+// rotation, zoom, scroll region and selection; unlinked it keeps its own,
+// starting from where the main view was.
+export function useCompareView() {
+  const [open, setOpen] = useState(false);
+  const [linked, setLinked] = useState(true);
+  const [layers, setLayers] = useState<LayerSettings>(() => layerSettingsFromVisible(DEFAULT_COMPARE_LAYERS));
+  // region index and selected mesh of the unlinked viewport
+  const [region, setRegion] = useState(0);
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+
+  return {
+    open,
+    linked,
+    layers,
+    region,
+    selectedName,
+    start: () => setOpen(true),
+    stop: () => setOpen(false),
+    link: () => setLinked(true),
+    unlink: (from: { region: number; selectedName: string | null }) => {
+      setLinked(false);
+      setRegion(from.region);
+      setSelectedName(from.selectedName);
+    },
+    showLayer: (id: string, visible: boolean) => setLayers((l) => ({ ...l, [id]: { ...l[id], visible } })),
+    setRegion,
+    select: setSelectedName,
+  };
+}
+
+export type CompareView = ReturnType<typeof useCompareView>;
+
+const buttonClass = "px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition";
+const selectClass = "w-full px-2 py-1 text-xs text-white bg-black/40 border border-white/10 rounded-md";
+
+export default function ComparePanel({
+  compare,
+  activeRegion,
+  selectedName,
+  canStart = true,
+}: {
+  compare: CompareView;
+  // the main view's region and selection, which unlinking starts from
+  activeRegion: number;
+  selectedName: string | null;
+  // false while another tool's panel covers the toggle column
+  canStart?: boolean;
+}) {
+  const { locale, m } = useI18n();
+
+  if (!compare.open) {
+    if (!canStart) return null;
+    return (
+      <div data-ui className="fixed top-60 left-6 z-20">
+        <button type="button" className={`${buttonClass} text-white bg-black/60 backdrop-blur-md`} onClick={compare.start}>
+          {m.compare.open}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <section
+      data-ui
+      aria-label={m.compare.label}
+      className="fixed top-24 left-[calc(50%+1.5rem)] z-20 w-64 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">{m.compare.title}</h2>
+        <button type="button" className="text-xs text-white/70 hover:text-white" onClick={compare.stop}>
+          {m.compare.close}
+        </button>
+      </div>
+
+      <label className="mt-2 flex items-center gap-2 text-xs">
+        <input
+          type="checkbox"
+          checked={compare.linked}
+          onChange={(e) => (e.target.checked ? compare.link() : compare.unlink({ region: activeRegion, selectedName }))}
+        />
+        {m.compare.linked}
+      </label>
+      {!compare.linked && (
+        <select aria-label={m.compare.region} className={`mt-2 ${selectClass}`} value={compare.region} onChange={(e) => compare.setRegion(Number(e.target.value))}>
+          {REGIONS.map((region, index) => (
+            <option key={region.id} value={index}>
+              {localize(region.title, locale)}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <fieldset className="mt-2">
+        <legend className="text-xs text-white/70">{m.compare.layers}</legend>
+        {LAYERS_BY_PEEL.map((layer) => (
+          <label key={layer.id} className="mt-1 flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={compare.layers[layer.id].visible} onChange={(e) => compare.showLayer(layer.id, e.target.checked)} />
+            {localize(layer.label, locale)}
+          </label>
+        ))}
+      </fieldset>
+    </section>
+  );
+}
@@ -0,0 +1,84 @@
+// components/CompareViewport.tsx
+import React, { Suspense, useEffect, useRef } from "react";
+import { Canvas } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import type { CompareView } from "@/components/ComparePanel";
+import { useGestureSettings } from "@/components/gestureSettings";
+import { useI18n } from "@/components/I18nProvider";
+import type { LightingPreset } from "@/components/RenderPanel";
+import CompareScene from "@/components/scene/CompareScene";
+import { initDecoders } from "@/components/scene/loaders";
+import useGestures, { newViewControl, type ViewControl } from "@/components/useGestures";
+import { regionScrollOffset } from "@/lib/regions";
+import { CAMERA_FOV } from "@/lib/sceneConfig";
+import type { TourPose } from "@/lib/tours";
+
+// The right half of the comparison view. Linked, its gestures drive the main
+// view's control and it mirrors the main selection, focus and tour; unlinked
+// it has a control of its own, taken over from the main view at that moment.
+export default function CompareViewport({
+  compare,
+  control,
+  restoreYaw,
+  selectedName,
+  focusName,
+  onSelect,
+  onInteract,
+  tourPose,
+  lighting,
+  layerUrls,
+  playing = false,
+}: {
+  compare: CompareView;
+  // the main view's input
+  control: React.RefObject<ViewControl>;
+  // the main view's user yaw, which a linked viewport opens on
+  restoreYaw: number;
+  selectedName: string | null;
+  focusName: string | null;
+  onSelect: (name: string | null) => void;
+  onInteract: () => void;
+  tourPose: React.RefObject<TourPose | null>;
+  // the main view's lighting preset
+  lighting?: LightingPreset;
+  // the main view's model files, and whether its tour is playing
+  layerUrls?: Record<string, string>;
+  playing?: boolean;
+}) {
+  const { m } = useI18n();
+  const viewRef = useRef<HTMLDivElement>(null);
+  const own = useRef<ViewControl>(newViewControl());
+  const { linked } = compare;
+  const viewControl = linked ? control : own;
+  const settings = useGestureSettings();
+  useGestures(viewRef, { settings, control: viewControl, onInteract: linked ? onInteract : undefined });
+
+  // unlinking keeps the view where it was instead of jumping back to the front
+  useEffect(() => {
+    if (linked) return;
+    const { yaw, pitch, zoom, pan } = control.current;
+    Object.assign(own.current, { yaw, pitch, zoom, pan: [...pan] });
+  }, [linked, control]);
+
+  return (
+    <div ref={viewRef} role="region" aria-label={m.compare.viewport} className="fixed inset-y-0 right-0 z-0 w-1/2 border-l border-white/10">
+      <Canvas camera={{ position: [0, 1.6, 4], fov: CAMERA_FOV }} className="w-full h-full" onCreated={({ gl }) => initDecoders(gl)}>
+        <Suspense fallback={<Html center>{m.scene.loading}</Html>}>
+          <CompareScene
+            control={viewControl}
+            layers={compare.layers}
+            restoreYaw={restoreYaw}
+            selectedName={linked ? selectedName : compare.selectedName}
+            onSelect={linked ? onSelect : compare.select}
+            focusName={linked ? focusName : null}
+            progress={linked ? null : regionScrollOffset(compare.region)}
+            tourPose={linked ? tourPose : undefined}
+            lighting={lighting}
+            layerUrls={layerUrls}
+            playing={linked && playing}
+          />
+        </Suspense>
+      </Canvas>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+// components/ControlsPanel.tsx
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { DEFAULT_GESTURE_SETTINGS, type GestureSettings } from "@/components/useGestures";
+
+// slider range, as a multiple of the default sensitivity
+const SPEED_MIN = 0.25;
+const SPEED_MAX = 2;
+
+// Gesture sensitivity as speeds relative to the defaults: one slider turns
+// both drag axes, zoom speed applies to ctrl+wheel and trackpad pinches.
+export default function ControlsPanel({ settings, onChange }: { settings: GestureSettings; onChange: (next: GestureSettings) => void }) {
+  const { m } = useI18n();
+  const d = DEFAULT_GESTURE_SETTINGS;
+  const update = (patch: Partial<GestureSettings>) => onChange({ ...settings, ...patch });
+
+  const sliders = [
+    {
+      label: m.controls.rotate,
+      value: settings.yawSensitivity / d.yawSensitivity,
+      set: (v: number) => update({ yawSensitivity: d.yawSensitivity * v, pitchSensitivity: d.pitchSensitivity * v }),
+    },
+    { label: m.controls.pan, value: settings.panSensitivity / d.panSensitivity, set: (v: number) => update({ panSensitivity: d.panSensitivity * v }) },
+    { label: m.controls.zoom, value: settings.wheelSensitivity / d.wheelSensitivity, set: (v: number) => update({ wheelSensitivity: d.wheelSensitivity * v }) },
+  ];
+
+  return (
+    <section data-ui aria-label={m.controls.label} className="w-56 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">{m.controls.title}</h2>
+        <button
+          type="button"
+          className="px-2 py-0.5 text-[11px] border border-white/10 rounded-md hover:bg-white/10 transition"
+          onClick={() => onChange(DEFAULT_GESTURE_SETTINGS)}
+        >
+          {m.controls.reset}
+        </button>
+      </div>
+      {sliders.map(({ label, value, set }) => (
+        <label key={label} className="mt-2 block text-xs text-white/70">
+          {label}
+          <input
+            type="range"
+            min={SPEED_MIN}
+            max={SPEED_MAX}
+            step={0.05}
+            value={value}
+            className="mt-1 w-full accent-indigo-500"
+            onChange={(e) => set(Number(e.target.value))}
+          />
+        </label>
+      ))}
+      <label className="mt-1 flex items-center gap-2 text-xs">
+        <input type="checkbox" checked={settings.friction > 0} onChange={(e) => update({ friction: e.target.checked ? d.friction : 0 })} />
+        {m.controls.inertia}
+      </label>
+    </section>
+  );
+}
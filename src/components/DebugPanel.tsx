@@ -0,0 +1,101 @@
+// components/DebugPanel.tsx
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { useRenderStats } from "@/components/scene/DebugGizmos";
+import { resetSceneTuning, setSceneTuning, useSceneTuning } from "@/components/sceneTuning";
+import type { SceneTuning } from "@/lib/sceneConfig";
+
+export type DebugSettings = { bbox: boolean; targets: boolean };
+
+// slider ranges; labels are the config keys so they match the exported file
+const KNOBS: { key: keyof SceneTuning; min: number; max: number; step: number }[] = [
+  { key: "modelScale", min: 0.2, max: 3, step: 0.01 },
+  { key: "modelYOffset", min: -3, max: 3, step: 0.01 },
+  { key: "rotationIntensity", min: 0, max: 1, step: 0.01 },
+  { key: "verticalBob", min: 0, max: 2, step: 0.01 },
+  { key: "hoverPointerRotMax", min: 0, max: 1.5, step: 0.01 },
+  { key: "cameraLerp", min: 0.01, max: 1, step: 0.01 },
+  { key: "focusCameraLerp", min: 0.01, max: 1, step: 0.01 },
+  { key: "lookAtLerp", min: 0.01, max: 1, step: 0.01 },
+];
+
+// Developer panel for ?debug=1: live scene tuning, renderer stats and gizmo
+// switches. "Export" downloads the tuning as config/scene.json, the file the
+// app loads its defaults from; commit it to keep the values.
+export default function DebugPanel({ settings, onChange }: { settings: DebugSettings; onChange: (next: DebugSettings) => void }) {
+  const { m } = useI18n();
+  const tuning = useSceneTuning();
+  const stats = useRenderStats();
+
+  const exportConfig = () => {
+    const blob = new Blob([`${JSON.stringify(tuning, null, 2)}\n`], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "scene.json";
+    a.click();
+    // revoked right away, the download can be cancelled in Firefox and Safari
+    window.setTimeout(() => URL.revokeObjectURL(url), 10_000);
+  };
+
+  return (
+    <section
+      data-ui
+      aria-label={m.debug.label}
+      className="fixed bottom-44 right-6 z-30 w-72 max-h-[calc(100vh-15rem)] overflow-y-auto px-4 py-3 text-white bg-black/60 border border-amber-400/40 rounded-2xl backdrop-blur-md"
+    >
+      <h2 className="text-sm font-semibold">{m.debug.title}</h2>
+
+      <dl className="mt-2 grid grid-cols-3 gap-2 text-center text-xs">
+        <div>
+          <dt className="text-white/60">{m.debug.fps}</dt>
+          <dd className="font-mono">{stats.fps}</dd>
+        </div>
+        <div>
+          <dt className="text-white/60">{m.debug.drawCalls}</dt>
+          <dd className="font-mono">{stats.calls}</dd>
+        </div>
+        <div>
+          <dt className="text-white/60">{m.debug.triangles}</dt>
+          <dd className="font-mono">{stats.triangles.toLocaleString()}</dd>
+        </div>
+      </dl>
+
+      {KNOBS.map(({ key, min, max, step }) => (
+        <label key={key} className="mt-2 block text-xs">
+          <span className="flex justify-between font-mono">
+            <span>{key}</span>
+            <span>{tuning[key].toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={tuning[key]}
+            className="w-full accent-amber-400"
+            onChange={(e) => setSceneTuning({ [key]: Number(e.target.value) })}
+          />
+        </label>
+      ))}
+
+      <label className="mt-2 flex items-center gap-2 text-xs">
+        <input type="checkbox" checked={settings.bbox} onChange={(e) => onChange({ ...settings, bbox: e.target.checked })} />
+        {m.debug.bbox}
+      </label>
+      <label className="mt-1 flex items-center gap-2 text-xs">
+        <input type="checkbox" checked={settings.targets} onChange={(e) => onChange({ ...settings, targets: e.target.checked })} />
+        {m.debug.targets}
+      </label>
+
+      <div className="mt-3 flex gap-2">
+        <button type="button" className="px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition" onClick={exportConfig}>
+          {m.debug.export}
+        </button>
+        <button type="button" className="px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition" onClick={resetSceneTuning}>
+          {m.debug.reset}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,34 @@
+// components/ExplodePanel.tsx
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+
+export type ExplodeSettings = { amount: number; grouped: boolean; regionOnly: boolean };
+
+export default function ExplodePanel({ settings, onChange }: { settings: ExplodeSettings; onChange: (next: ExplodeSettings) => void }) {
+  const { m } = useI18n();
+  const update = (patch: Partial<ExplodeSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <section data-ui aria-label={m.explode.label} className="w-56 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+      <h2 className="text-sm font-semibold">{m.explode.title}</h2>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.01}
+        value={settings.amount}
+        aria-label={m.explode.amount}
+        className="mt-2 w-full accent-indigo-500"
+        onChange={(e) => update({ amount: Number(e.target.value) })}
+      />
+      <label className="mt-1 flex items-center gap-2 text-xs">
+        <input type="checkbox" checked={settings.grouped} onChange={(e) => update({ grouped: e.target.checked })} />
+        {m.explode.grouped}
+      </label>
+      <label className="mt-1 flex items-center gap-2 text-xs">
+        <input type="checkbox" checked={settings.regionOnly} onChange={(e) => update({ regionOnly: e.target.checked })} />
+        {m.explode.regionOnly}
+      </label>
+    </section>
+  );
+}
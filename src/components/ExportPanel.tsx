@@ -0,0 +1,139 @@
+// components/ExportPanel.tsx
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { ExportOptions, SceneCapture } from "@/components/scene/SceneExporter";
+import { localize } from "@/lib/i18n";
+import { REGIONS } from "@/lib/regions";
+
+const RESOLUTIONS = [
+  { id: "1080p", width: 1920, height: 1080 },
+  { id: "1440p", width: 2560, height: 1440 },
+  { id: "4k", width: 3840, height: 2160 },
+];
+
+// handout pictures: 4:3 at a size that prints sharply across an A4 page
+const HANDOUT_IMAGE = { width: 1600, height: 1200 };
+// how long a saved file's object URL is kept: revoking it right after the
+// click can cancel the download in Firefox and Safari
+const REVOKE_DELAY = 10_000;
+
+function download(href: string, filename: string) {
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = filename;
+  a.click();
+}
+
+async function savePngAs(canvas: HTMLCanvasElement, filename: string) {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("PNG encoding failed");
+  const url = URL.createObjectURL(blob);
+  download(url, filename);
+  window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+}
+
+// Screenshot and handout export, all in the browser: the PNG is the current
+// view rendered offscreen at the chosen resolution; the PDF has one A4 page
+// per region with its framing, title and description.
+export default function ExportPanel({ capture }: { capture: React.RefObject<SceneCapture | null> }) {
+  const { locale, m } = useI18n();
+  const [resolution, setResolution] = useState(RESOLUTIONS[2].id);
+  const [transparent, setTransparent] = useState(false);
+  const [color, setColor] = useState("#ffffff");
+  const [labels, setLabels] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  // lets the busy state paint before the synchronous renders block the page
+  const run = async (task: (scene: SceneCapture) => Promise<void>) => {
+    const scene = capture.current;
+    if (!scene || busy) return;
+    setBusy(true);
+    setFailed(false);
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+    try {
+      await task(scene);
+    } catch {
+      setFailed(true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const savePng = () =>
+    run(async (scene) => {
+      const { width, height } = RESOLUTIONS.find((r) => r.id === resolution) ?? RESOLUTIONS[0];
+      await savePngAs(scene.capture({ width, height, background: transparent ? null : color, labels }), `anatomy-${width}x${height}.png`);
+    });
+
+  const saveHandout = () =>
+    run(async (scene) => {
+      // JPEG pages have no alpha: a transparent choice prints on white
+      const options: ExportOptions = { ...HANDOUT_IMAGE, background: transparent ? "#ffffff" : color, labels };
+      const images = scene.captureRegions(options);
+      const { jsPDF } = await import("jspdf");
+      const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+      const pageWidth = doc.internal.pageSize.getWidth();
+      const margin = 18;
+      const contentWidth = pageWidth - margin * 2;
+      const imageHeight = (contentWidth * HANDOUT_IMAGE.height) / HANDOUT_IMAGE.width;
+
+      REGIONS.forEach((region, i) => {
+        const image = images[i];
+        if (!image) return;
+        if (i > 0) doc.addPage();
+        doc.setFontSize(9);
+        doc.setTextColor(120);
+        doc.text(`${m.header.title} · ${i + 1}/${REGIONS.length}`, margin, margin - 6);
+        doc.setFontSize(20);
+        doc.setTextColor(20);
+        doc.text(localize(region.title, locale), margin, margin + 4);
+        doc.addImage(image.toDataURL("image/jpeg", 0.92), "JPEG", margin, margin + 10, contentWidth, imageHeight);
+        doc.setFontSize(11);
+        doc.setTextColor(40);
+        doc.text(doc.splitTextToSize(localize(region.description, locale), contentWidth), margin, margin + imageHeight + 20);
+      });
+      doc.save(`anatomy-handout-${locale}.pdf`);
+    });
+
+  return (
+    <section data-ui aria-label={m.export.label} className="w-60 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+      <h2 className="text-sm font-semibold">{m.export.title}</h2>
+      <label className="mt-2 flex items-center justify-between gap-2 text-xs">
+        {m.export.resolution}
+        <select className="bg-black/40 border border-white/10 rounded-md px-1 py-0.5" value={resolution} onChange={(e) => setResolution(e.target.value)}>
+          {RESOLUTIONS.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.width}×{r.height}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="mt-1 flex items-center gap-2 text-xs">
+        <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+        {m.export.transparent}
+      </label>
+      {!transparent && (
+        <label className="mt-1 flex items-center gap-2 text-xs">
+          <input type="color" className="h-5 w-8 bg-transparent" value={color} onChange={(e) => setColor(e.target.value)} />
+          {m.export.background}
+        </label>
+      )}
+      <label className="mt-1 flex items-center gap-2 text-xs">
+        <input type="checkbox" checked={labels} onChange={(e) => setLabels(e.target.checked)} />
+        {m.export.labels}
+      </label>
+      <div className="mt-2 flex gap-2">
+        <button type="button" disabled={busy} className="px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition disabled:opacity-50" onClick={savePng}>
+          {m.export.png}
+        </button>
+        <button type="button" disabled={busy} className="px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition disabled:opacity-50" onClick={saveHandout}>
+          {m.export.handout}
+        </button>
+      </div>
+      <p aria-live="polite" className="mt-1 text-xs text-white/70">
+        {busy ? m.export.working : failed ? m.export.failed : ""}
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,18 @@
+// components/I18nProvider.tsx
+"use client";
+import React, { createContext, useContext } from "react";
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@/lib/i18n";
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+export default function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
+
+// Active locale and its message catalog. Works inside the r3f Canvas too,
+// since fiber bridges context into the scene; drei <Html> renders into a
+// separate root though, so resolve strings outside of it.
+export function useI18n() {
+  const locale = useContext(LocaleContext);
+  return { locale, m: getMessages(locale) };
+}
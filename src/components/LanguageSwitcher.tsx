@@ -0,0 +1,38 @@
+// components/LanguageSwitcher.tsx
+"use client";
+import React from "react";
+import { usePathname } from "next/navigation";
+import { useI18n } from "@/components/I18nProvider";
+import { LOCALE_COOKIE, LOCALE_NAMES, LOCALES, localePath, stripLocale, type Locale } from "@/lib/i18n";
+
+// `viewQuery` is the encoded view state; it is passed in rather than read from
+// the URL because the URL writer is debounced and may lag behind the scene.
+export default function LanguageSwitcher({ viewQuery }: { viewQuery: string }) {
+  const { locale, m } = useI18n();
+  const pathname = usePathname();
+
+  const switchTo = (next: Locale) => {
+    if (next === locale) return;
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+    const query = viewQuery ? `?${viewQuery}` : "";
+    // each locale has its own root layout, so this is a full navigation anyway
+    window.location.assign(`${localePath(next, stripLocale(pathname))}${query}${window.location.hash}`);
+  };
+
+  return (
+    <div data-ui>
+      <select
+        aria-label={m.language.label}
+        className="px-2 py-1 text-xs text-white bg-black/60 border border-white/10 rounded-md backdrop-blur-md"
+        value={locale}
+        onChange={(e) => switchTo(e.target.value as Locale)}
+      >
+        {LOCALES.map((l) => (
+          <option key={l} value={l} lang={l}>
+            {LOCALE_NAMES[l]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+// components/LayerPanel.tsx
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { format, localize } from "@/lib/i18n";
+import { LAYERS_BY_PEEL, peelOuterLayer, restoreOuterLayer, type LayerSettings, type LayerStatus } from "@/lib/layers";
+
+export default function LayerPanel({
+  settings,
+  status,
+  onChange,
+}: {
+  settings: LayerSettings;
+  status: Record<string, LayerStatus>;
+  onChange: (next: LayerSettings) => void;
+}) {
+  const { locale, m } = useI18n();
+  const statusLabel: Partial<Record<LayerStatus, string>> = { loading: m.layers.loading, error: m.layers.unavailable };
+
+  const update = (id: string, patch: Partial<LayerSettings[string]>) => {
+    onChange({ ...settings, [id]: { ...settings[id], ...patch } });
+  };
+
+  return (
+    <section data-ui aria-label={m.layers.label} className="w-64 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">{m.layers.title}</h2>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            className="px-2 py-0.5 text-[11px] border border-white/10 rounded-md hover:bg-white/10 transition"
+            onClick={() => onChange(peelOuterLayer(settings))}
+          >
+            {m.layers.peel}
+          </button>
+          <button
+            type="button"
+            className="px-2 py-0.5 text-[11px] border border-white/10 rounded-md hover:bg-white/10 transition"
+            onClick={() => onChange(restoreOuterLayer(settings))}
+          >
+            {m.layers.restore}
+          </button>
+        </div>
+      </div>
+
+      <ul className="mt-2 space-y-2">
+        {LAYERS_BY_PEEL.map((layer) => {
+          const state = settings[layer.id];
+          const label = localize(layer.label, locale);
+          const note = statusLabel[status[layer.id] ?? "idle"];
+          return (
+            <li key={layer.id}>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={state.visible} onChange={(e) => update(layer.id, { visible: e.target.checked })} />
+                <span className="flex-1">{label}</span>
+                {note && <span className="text-[11px] text-white/50">{note}</span>}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={state.opacity}
+                disabled={!state.visible}
+                aria-label={format(m.layers.opacity, { layer: label })}
+                className="w-full accent-indigo-500"
+                onChange={(e) => update(layer.id, { opacity: Number(e.target.value) })}
+              />
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,86 @@
+// components/LoadingScreen.tsx
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { useLoadProgress, type LoadFailure } from "@/components/scene/loaders";
+import { format, localize } from "@/lib/i18n";
+import { LAYERS, type LayerSettings, type LayerStatus } from "@/lib/layers";
+
+const buttonClass = "px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition";
+
+// Progress for visible layers that are still downloading, and a retryable
+// message for any that failed.
+export default function LoadingScreen({
+  settings,
+  urls,
+  status,
+  failures,
+  onRetry,
+  onHide,
+}: {
+  settings: LayerSettings;
+  // file each layer loads, when not its LayerDef.url
+  urls?: Record<string, string>;
+  status: Record<string, LayerStatus>;
+  failures: Record<string, LoadFailure>;
+  onRetry: (id: string) => void;
+  onHide: (id: string) => void;
+}) {
+  const { locale, m } = useI18n();
+  const progress = useLoadProgress();
+
+  const visible = LAYERS.filter((l) => settings[l.id]?.visible);
+  const loading = visible.filter((l) => status[l.id] === "loading");
+  const failed = visible.filter((l) => status[l.id] === "error");
+  if (!loading.length && !failed.length) return null;
+
+  const received = loading.map((l) => progress[urls?.[l.id] ?? l.url] ?? { loaded: 0, total: 0 });
+  const loaded = received.reduce((sum, p) => sum + p.loaded, 0);
+  const total = received.reduce((sum, p) => sum + p.total, 0);
+  // only a real percentage when every download announced its size
+  const percent = received.every((p) => p.total > 0) && total > 0 ? Math.round((loaded / total) * 100) : null;
+  const names = loading.map((l) => localize(l.label, locale).toLowerCase()).join(", ");
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center pointer-events-none">
+      <div data-ui className="w-80 max-w-[calc(100vw-3rem)] px-5 py-4 text-white bg-black/70 border border-white/10 rounded-2xl backdrop-blur-md pointer-events-auto">
+        {loading.length > 0 && (
+          <div aria-live="polite">
+            <div className="flex items-baseline justify-between gap-3 text-sm">
+              <span>{format(m.loading.layer, { layer: names })}</span>
+              <span className="font-semibold tabular-nums">
+                {percent !== null ? `${percent}%` : format(m.loading.megabytes, { mb: (loaded / 1e6).toFixed(1) })}
+              </span>
+            </div>
+            <div
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent ?? undefined}
+              className="mt-2 h-1.5 overflow-hidden rounded-full bg-white/10"
+            >
+              <div className={`h-full bg-indigo-500 transition-[width] ${percent === null ? "w-1/3 animate-pulse" : ""}`} style={percent !== null ? { width: `${percent}%` } : undefined} />
+            </div>
+          </div>
+        )}
+
+        {failed.map((layer) => {
+          const failure = failures[layer.id] ?? { kind: "parse", url: layer.url };
+          const label = localize(layer.label, locale).toLowerCase();
+          return (
+            <div key={layer.id} role="alert" className={loading.length ? "mt-4 border-t border-white/10 pt-3" : ""}>
+              <p className="text-sm text-rose-200">{format(m.loading[failure.kind], { layer: label, url: failure.url, status: failure.status ?? "" })}</p>
+              <div className="mt-2 flex gap-2">
+                <button type="button" className={buttonClass} onClick={() => onRetry(layer.id)}>
+                  {m.loading.retry}
+                </button>
+                <button type="button" className={buttonClass} onClick={() => onHide(layer.id)}>
+                  {m.loading.hide}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+// components/MeasurePanel.tsx
+import React, { useCallback, useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { format } from "@/lib/i18n";
+import {
+  DEFAULT_BODY_HEIGHT_CM,
+  MAX_BODY_HEIGHT_CM,
+  MIN_BODY_HEIGHT_CM,
+  MIN_PATH_POINTS,
+  POINTS_NEEDED,
+  formatMeasurement,
+  measurementId,
+  type MeasureMode,
+  type MeasurePoint,
+  type Measurement,
+} from "@/lib/measurements";
+
+const MODES: MeasureMode[] = ["distance", "angle", "path"];
+
+// id of the measurement being placed, in the list handed to the scene
+const PENDING_ID = "pending";
+
+// Measurement tool state. Lives in the explorer because the scene places the
+// points and draws the marks, and the measurements are part of the view URL.
+export function useMeasureTool(initial: { measurements?: Measurement[]; bodyHeight?: number }) {
+  const [open, setOpen] = useState(false);
+  // one state so that placing the last point and saving the measurement is a
+  // single update, and the callbacks below stay stable for the scene's pickers
+  const [state, setState] = useState<{ mode: MeasureMode; pending: MeasurePoint[]; measurements: Measurement[] }>(() => ({
+    mode: "distance",
+    pending: [],
+    measurements: initial.measurements ?? [],
+  }));
+  const { mode, pending, measurements } = state;
+  const [bodyHeight, setBodyHeight] = useState(initial.bodyHeight ?? DEFAULT_BODY_HEIGHT_CM);
+  // cm or degrees by measurement id, reported back by the scene
+  const [values, setValues] = useState<Record<string, number>>({});
+  // what the scene draws: the saved measurements and the one being placed
+  const shown = useMemo(() => (pending.length ? [...measurements, { id: PENDING_ID, mode, points: pending }] : measurements), [measurements, pending, mode]);
+
+  const addPoint = useCallback((point: MeasurePoint) => {
+    const id = measurementId();
+    setState((s) => {
+      const points = [...s.pending, point];
+      if (POINTS_NEEDED[s.mode] !== points.length) return { ...s, pending: points };
+      return { ...s, pending: [], measurements: [...s.measurements, { id, mode: s.mode, points }] };
+    });
+  }, []);
+
+  const finish = useCallback(() => {
+    const id = measurementId();
+    setState((s) => ({ ...s, pending: [], measurements: [...s.measurements, { id, mode: s.mode, points: s.pending }] }));
+  }, []);
+
+  const setMode = useCallback((next: MeasureMode) => setState((s) => ({ ...s, mode: next, pending: [] })), []);
+
+  return {
+    open,
+    mode,
+    pending,
+    measurements,
+    bodyHeight,
+    values,
+    shown,
+    canFinish: mode === "path" && pending.length >= MIN_PATH_POINTS,
+    start: () => setOpen(true),
+    stop: () => {
+      setOpen(false);
+      setState((s) => ({ ...s, pending: [] }));
+    },
+    setMode,
+    addPoint,
+    finish,
+    undo: () => setState((s) => ({ ...s, pending: s.pending.slice(0, -1) })),
+    remove: (id: string) => setState((s) => ({ ...s, measurements: s.measurements.filter((m) => m.id !== id) })),
+    clear: () => setState((s) => ({ ...s, measurements: [] })),
+    setBodyHeight: (cm: number) => setBodyHeight(Math.min(Math.max(cm, MIN_BODY_HEIGHT_CM), MAX_BODY_HEIGHT_CM)),
+    setValues,
+  };
+}
+
+export type MeasureTool = ReturnType<typeof useMeasureTool>;
+
+const buttonClass = "px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition";
+
+export default function MeasurePanel({ tool }: { tool: MeasureTool }) {
+  const { m } = useI18n();
+  const [heightText, setHeightText] = useState<string | null>(null);
+
+  if (!tool.open) {
+    return (
+      <div data-ui className="fixed top-48 left-6 z-20">
+        <button type="button" className={`${buttonClass} text-white bg-black/60 backdrop-blur-md`} onClick={tool.start}>
+          {m.measure.open}
+          {tool.measurements.length > 0 && ` (${tool.measurements.length})`}
+        </button>
+      </div>
+    );
+  }
+
+  const needed = POINTS_NEEDED[tool.mode];
+  const hint = needed === null ? m.measure.hintPath : format(m.measure.hint, { count: needed - tool.pending.length });
+
+  return (
+    <section data-ui aria-label={m.measure.title} className="fixed top-24 left-6 z-20 w-72 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">{m.measure.title}</h2>
+        <button type="button" className="text-xs text-white/70 hover:text-white" onClick={tool.stop}>
+          {m.measure.close}
+        </button>
+      </div>
+
+      <div role="radiogroup" aria-label={m.measure.mode} className="mt-2 flex gap-1">
+        {MODES.map((mode) => (
+          <button
+            key={mode}
+            type="button"
+            role="radio"
+            aria-checked={tool.mode === mode}
+            className={`flex-1 px-2 py-1 text-xs border rounded-md transition ${tool.mode === mode ? "border-emerald-400 bg-emerald-400/20" : "border-white/10 hover:bg-white/10"}`}
+            onClick={() => tool.setMode(mode)}
+          >
+            {m.measure[mode]}
+          </button>
+        ))}
+      </div>
+
+      <p aria-live="polite" className="mt-2 text-xs text-white/70">
+        {hint}
+      </p>
+      {tool.pending.length > 0 && (
+        <div className="mt-2 flex gap-2">
+          {tool.mode === "path" && (
+            <button type="button" disabled={!tool.canFinish} className={`${buttonClass} disabled:opacity-50`} onClick={tool.finish}>
+              {m.measure.finish}
+            </button>
+          )}
+          <button type="button" className={buttonClass} onClick={tool.undo}>
+            {m.measure.undo}
+          </button>
+        </div>
+      )}
+
+      <label className="mt-3 flex items-center justify-between gap-2 text-xs">
+        {m.measure.bodyHeight}
+        <input
+          type="number"
+          min={MIN_BODY_HEIGHT_CM}
+          max={MAX_BODY_HEIGHT_CM}
+          className="w-20 px-2 py-0.5 text-right bg-black/40 border border-white/10 rounded-md"
+          value={heightText ?? String(tool.bodyHeight)}
+          onChange={(e) => setHeightText(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          onBlur={() => {
+            const cm = Number(heightText);
+            if (heightText !== null && heightText !== "" && Number.isFinite(cm)) tool.setBodyHeight(cm);
+            setHeightText(null);
+          }}
+        />
+      </label>
+
+      {tool.measurements.length > 0 && (
+        <>
+          <ul className="mt-3 space-y-1 text-xs">
+            {tool.measurements.map((measurement, i) => {
+              const value = tool.values[measurement.id];
+              return (
+                <li key={measurement.id} className="flex items-center justify-between gap-2">
+                  <span>
+                    {i + 1}. {m.measure[measurement.mode]}
+                  </span>
+                  <span className="ml-auto tabular-nums font-semibold">{value === undefined ? "—" : formatMeasurement(measurement.mode, value)}</span>
+                  <button
+                    type="button"
+                    aria-label={format(m.measure.delete, { index: i + 1 })}
+                    className="text-white/60 hover:text-white"
+                    onClick={() => tool.remove(measurement.id)}
+                  >
+                    ✕
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <button type="button" className="mt-2 text-xs text-white/70 hover:text-white" onClick={tool.clear}>
+            {m.measure.clear}
+          </button>
+        </>
+      )}
+    </section>
+  );
+}
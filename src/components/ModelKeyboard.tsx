@@ -0,0 +1,166 @@
+// components/ModelKeyboard.tsx
+import React, { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { format, localize } from "@/lib/i18n";
+import type { ModelMesh } from "@/lib/modelManifest";
+import { REGIONS } from "@/lib/regions";
+import { KEYBOARD_PITCH_STEP, KEYBOARD_ROTATE_STEP, ZOOM_STEP } from "@/lib/sceneConfig";
+import { buildSearchIndex } from "@/lib/search";
+
+// Keyboard and screen-reader access to the 3D view. Wraps the canvas in a
+// focusable element, a single tab stop: left / right arrows rotate, up / down
+// tilt, +/- zoom, PageUp/PageDown (and Home/End) jump between regions, ] and [
+// walk the loaded structures (wrapping around), Enter selects and Escape
+// clears. Everything it does is announced through a polite live region.
+export default function ModelKeyboard({
+  meshes,
+  activeRegion,
+  rotation,
+  selectedName,
+  onRotate,
+  onPitch,
+  onZoom,
+  onRegion,
+  onSelect,
+  onClear,
+  onCursor,
+  split = false,
+  ref,
+  children,
+}: {
+  meshes: ModelMesh[];
+  activeRegion: number;
+  // current user yaw, radians
+  rotation: number;
+  selectedName: string | null;
+  onRotate: (delta: number) => void;
+  // tilts the camera; returns the resulting pitch, radians
+  onPitch: (delta: number) => number;
+  // multiplies the zoom; returns the resulting zoom
+  onZoom: (factor: number) => number;
+  onRegion: (index: number) => void;
+  onSelect: (meshName: string) => void;
+  onClear: () => void;
+  // structure the ]/[ cursor is on, for the on-model focus outline
+  onCursor: (meshName: string | null) => void;
+  // the comparison view has the right half of the screen
+  split?: boolean;
+  // the wrapper element, where the gesture controller listens
+  ref?: React.Ref<HTMLDivElement>;
+  children: React.ReactNode;
+}) {
+  const { locale, m } = useI18n();
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  // head to toe, then by name
+  const entries = useMemo(() => {
+    const regions = new Map(meshes.map((m) => [m.name, m.region]));
+    const regionIndex = (meshName: string) => {
+      const i = REGIONS.findIndex((r) => r.id === regions.get(meshName));
+      return i < 0 ? REGIONS.length : i;
+    };
+    return buildSearchIndex(Array.from(regions.keys()), locale).sort((a, b) => regionIndex(a.meshName) - regionIndex(b.meshName) || a.label.localeCompare(b.label));
+  }, [meshes, locale]);
+
+  const moveCursor = (next: number | null) => {
+    setCursor(next);
+    const entry = next === null ? null : entries[next];
+    onCursor(entry?.meshName ?? null);
+    if (entry) setAnnouncement(format(m.a11y.structure, { name: entry.label, group: entry.group, index: next! + 1, total: entries.length }));
+  };
+
+  const jumpToRegion = (index: number) => {
+    const next = Math.min(Math.max(index, 0), REGIONS.length - 1);
+    onRegion(next);
+    setAnnouncement(format(m.a11y.region, { name: localize(REGIONS[next].title, locale) }));
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.altKey || e.ctrlKey || e.metaKey) return;
+    switch (e.key) {
+      case "ArrowLeft":
+      case "ArrowRight": {
+        const delta = e.key === "ArrowLeft" ? -KEYBOARD_ROTATE_STEP : KEYBOARD_ROTATE_STEP;
+        onRotate(delta);
+        const degrees = ((Math.round(((rotation + delta) * 180) / Math.PI) % 360) + 360) % 360;
+        setAnnouncement(format(m.a11y.rotated, { degrees }));
+        break;
+      }
+      case "ArrowUp":
+      case "ArrowDown": {
+        const pitch = onPitch(e.key === "ArrowUp" ? KEYBOARD_PITCH_STEP : -KEYBOARD_PITCH_STEP);
+        setAnnouncement(format(m.a11y.tilted, { degrees: Math.round((pitch * 180) / Math.PI) }));
+        break;
+      }
+      case "+":
+      case "=":
+      case "-":
+      case "_": {
+        const next = onZoom(e.key === "+" || e.key === "=" ? ZOOM_STEP : 1 / ZOOM_STEP);
+        setAnnouncement(format(m.a11y.zoom, { percent: Math.round(next * 100) }));
+        break;
+      }
+      case "PageUp":
+        jumpToRegion(activeRegion - 1);
+        break;
+      case "PageDown":
+        jumpToRegion(activeRegion + 1);
+        break;
+      case "Home":
+        jumpToRegion(0);
+        break;
+      case "End":
+        jumpToRegion(REGIONS.length - 1);
+        break;
+      case "]":
+      case "[": {
+        // Tab is left alone, so focus leaves the model in one step
+        if (entries.length === 0) return;
+        const step = e.key === "]" ? 1 : -1;
+        const from = cursor ?? (step > 0 ? -1 : entries.length);
+        moveCursor((from + step + entries.length) % entries.length);
+        break;
+      }
+      case "Enter":
+      case " ": {
+        const entry = cursor === null ? null : entries[cursor];
+        if (!entry) return;
+        onSelect(entry.meshName);
+        setAnnouncement(format(m.a11y.selected, { name: entry.label }));
+        break;
+      }
+      case "Escape":
+        if (cursor === null && !selectedName) return;
+        moveCursor(null);
+        onClear();
+        setAnnouncement(m.a11y.cleared);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div
+      ref={ref}
+      tabIndex={0}
+      role="application"
+      aria-roledescription={m.a11y.roleDescription}
+      aria-label={m.a11y.model}
+      aria-describedby="model-keyboard-help"
+      className={`fixed inset-y-0 left-0 z-0 ${split ? "w-1/2" : "w-full"} outline-none focus-visible:ring-4 focus-visible:ring-inset focus-visible:ring-yellow-400`}
+      onKeyDown={onKeyDown}
+      onBlur={() => moveCursor(null)}
+    >
+      {children}
+      <p id="model-keyboard-help" className="sr-only">
+        {m.a11y.help}
+      </p>
+      <div aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+// components/QuizPanel.tsx
+import React, { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { format, localize } from "@/lib/i18n";
+import type { ModelMesh } from "@/lib/modelManifest";
+import { REGIONS } from "@/lib/regions";
+import { describeMesh } from "@/lib/structures";
+import {
+  buildQuizItems,
+  emptyProgress,
+  isPickCorrect,
+  isTextAnswerCorrect,
+  loadQuizProgress,
+  nextQuestion,
+  recordAnswer,
+  saveQuizProgress,
+  weakestItems,
+  type AnswerFormat,
+  type QuizMode,
+  type QuizProgress,
+  type QuizQuestion,
+} from "@/lib/quiz";
+
+type QuizSettings = { region: string; mode: QuizMode; format: AnswerFormat };
+type QuizResult = { correct: boolean; pickedMesh?: string | null };
+
+// Quiz session state. Lives in the explorer because the scene needs the
+// highlighted mesh and model clicks have to be routed to find-questions.
+export function useQuizSession(meshes: ModelMesh[]) {
+  const { locale } = useI18n();
+  const [active, setActive] = useState(false);
+  const [settings, setSettings] = useState<QuizSettings>({ region: "all", mode: "name", format: "choice" });
+  const [question, setQuestion] = useState<QuizQuestion | null>(null);
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+  const [streak, setStreak] = useState(0);
+  const [progress, setProgress] = useState<QuizProgress>(emptyProgress);
+
+  const items = useMemo(() => buildQuizItems(meshes, settings.region, locale), [meshes, settings.region, locale]);
+
+  const ask = (s: QuizSettings, p: QuizProgress, previousKey?: string) => {
+    setResult(null);
+    setQuestion(nextQuestion(buildQuizItems(meshes, s.region, locale), p, s.mode, s.format, previousKey));
+  };
+
+  const start = () => {
+    const p = loadQuizProgress();
+    setProgress(p);
+    setScore({ correct: 0, total: 0 });
+    setStreak(0);
+    setActive(true);
+    ask(settings, p);
+  };
+
+  const stop = () => {
+    setActive(false);
+    setQuestion(null);
+    setResult(null);
+  };
+
+  const configure = (patch: Partial<QuizSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    if (active) ask(next, progress);
+  };
+
+  const settle = (correct: boolean, pickedMesh?: string | null) => {
+    if (!question || result) return;
+    const nextStreak = correct ? streak + 1 : 0;
+    const p = recordAnswer(progress, question.item.key, correct, nextStreak);
+    saveQuizProgress(p);
+    setProgress(p);
+    setStreak(nextStreak);
+    setScore((s) => ({ correct: s.correct + (correct ? 1 : 0), total: s.total + 1 }));
+    setResult({ correct, pickedMesh });
+  };
+
+  const answerChoice = (label: string) => {
+    if (question) settle(label === question.item.label);
+  };
+
+  const answerText = (text: string) => {
+    if (question) settle(isTextAnswerCorrect(text, question.item));
+  };
+
+  // model click while a find-question is open
+  const answerPick = (meshName: string | null) => {
+    if (question?.kind === "find") settle(isPickCorrect(meshName, question.item), meshName);
+  };
+
+  const next = () => ask(settings, progress, question?.item.key);
+
+  // the structure being asked about; for find-questions only once answered
+  const highlightName = question && (question.kind === "name" || result) ? question.meshName : null;
+
+  return {
+    active,
+    settings,
+    question,
+    result,
+    score,
+    streak,
+    progress,
+    items,
+    highlightName,
+    start,
+    stop,
+    configure,
+    answerChoice,
+    answerText,
+    answerPick,
+    next,
+  };
+}
+
+export type QuizSession = ReturnType<typeof useQuizSession>;
+
+const selectClass = "w-full px-2 py-1 text-xs text-white bg-black/40 border border-white/10 rounded-md";
+const buttonClass = "px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition";
+
+export default function QuizPanel({ quiz }: { quiz: QuizSession }) {
+  const { locale, m } = useI18n();
+  const [text, setText] = useState("");
+
+  if (!quiz.active) {
+    return (
+      <div data-ui className="fixed top-24 left-6 z-20">
+        <button type="button" className={`${buttonClass} text-white bg-black/60 backdrop-blur-md`} onClick={quiz.start}>
+          {m.quiz.open}
+        </button>
+      </div>
+    );
+  }
+
+  const { question, result, score, streak, progress, settings } = quiz;
+  const weakest = weakestItems(quiz.items, progress);
+  const [findBefore, findAfter] = m.quiz.findPrompt.split("{name}");
+
+  return (
+    <section data-ui aria-label={m.quiz.title} className="fixed top-24 left-6 z-20 w-72 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">{m.quiz.title}</h2>
+        <button type="button" className="text-xs text-white/70 hover:text-white" onClick={quiz.stop}>
+          {m.quiz.end}
+        </button>
+      </div>
+      <div className="mt-1 text-xs text-white/70">
+        {format(m.quiz.score, { correct: score.correct, total: score.total, streak, best: progress.bestStreak })}
+      </div>
+
+      <div className="mt-3 grid grid-cols-3 gap-2">
+        <select aria-label={m.quiz.region} className={selectClass} value={settings.region} onChange={(e) => quiz.configure({ region: e.target.value })}>
+          <option value="all">{m.quiz.allRegions}</option>
+          {REGIONS.map((r) => (
+            <option key={r.id} value={r.id}>
+              {localize(r.title, locale)}
+            </option>
+          ))}
+        </select>
+        <select aria-label={m.quiz.questionType} className={selectClass} value={settings.mode} onChange={(e) => quiz.configure({ mode: e.target.value as QuizMode })}>
+          <option value="name">{m.quiz.nameIt}</option>
+          <option value="find">{m.quiz.findIt}</option>
+          <option value="mixed">{m.quiz.mixed}</option>
+        </select>
+        <select aria-label={m.quiz.answerFormat} className={selectClass} value={settings.format} onChange={(e) => quiz.configure({ format: e.target.value as AnswerFormat })}>
+          <option value="choice">{m.quiz.choices}</option>
+          <option value="text">{m.quiz.typed}</option>
+        </select>
+      </div>
+
+      <div className="mt-4" aria-live="polite">
+        {!question && <p className="text-sm text-white/70">{m.quiz.empty}</p>}
+
+        {question?.kind === "name" && <p className="text-sm">{m.quiz.namePrompt}</p>}
+        {question?.kind === "find" && (
+          <p className="text-sm">
+            {findBefore}
+            <strong>{question.item.label.toLowerCase()}</strong>
+            {findAfter}
+          </p>
+        )}
+
+        {question?.kind === "name" && !result && question.choices && (
+          <div className="mt-2 grid gap-1">
+            {question.choices.map((label) => (
+              <button key={label} type="button" className={`${buttonClass} text-left`} onClick={() => quiz.answerChoice(label)}>
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {question?.kind === "name" && !result && !question.choices && (
+          <form
+            className="mt-2 flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              quiz.answerText(text);
+              setText("");
+            }}
+          >
+            <input
+              aria-label={m.quiz.yourAnswer}
+              className="flex-1 px-2 py-1 text-sm text-white bg-black/40 border border-white/10 rounded-md"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              autoFocus
+            />
+            <button type="submit" className={buttonClass}>
+              {m.quiz.check}
+            </button>
+          </form>
+        )}
+
+        {question && result && (
+          <div className="mt-2">
+            <p className={`text-sm font-semibold ${result.correct ? "text-emerald-300" : "text-rose-300"}`}>
+              {result.correct ? m.quiz.correct : format(m.quiz.wrong, { name: question.item.label.toLowerCase() })}
+            </p>
+            {!result.correct && question.kind === "find" && (
+              <p className="text-xs text-white/70">
+                {format(m.quiz.picked, { name: result.pickedMesh ? describeMesh(result.pickedMesh, locale).name : m.quiz.pickedNothing })}
+              </p>
+            )}
+            <button type="button" className={`${buttonClass} mt-2`} onClick={quiz.next} autoFocus>
+              {m.quiz.next}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {weakest.length > 0 && (
+        <div className="mt-4 border-t border-white/10 pt-2">
+          <div className="text-[11px] uppercase tracking-wide text-white/50">{m.quiz.practice}</div>
+          <ul className="mt-1 space-y-0.5 text-xs text-white/80">
+            {weakest.map(({ item, stats }) => (
+              <li key={item.key} className="flex justify-between">
+                <span>{item.label}</span>
+                <span>
+                  {stats.correct}/{stats.attempts}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+// components/RegionCard.tsx
+import React, { useRef } from "react";
+import Link from "next/link";
+import { useI18n } from "@/components/I18nProvider";
+import { localePath, localize } from "@/lib/i18n";
+import { useScrollEffect } from "@/components/scrollProgress";
+import { regionHideProgress, type Region } from "@/lib/regions";
+
+function cardStyle(hideProgress: number): React.CSSProperties {
+  const p = Math.min(Math.max(hideProgress, 0), 1);
+  return {
+    opacity: 1 - p,
+    transform: `translateY(${-12 * p}px) scale(${1 - 0.005 * p})`,
+    pointerEvents: p >= 0.999 ? "none" : "auto",
+  };
+}
+
+// Fades with the page scroll inside the region's scroll window; the style is
+// written to the element directly so scrolling doesn't re-render the card.
+export default function RegionCard({ region }: { region: Region }) {
+  const { locale, m } = useI18n();
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useScrollEffect((progress) => {
+    if (cardRef.current) Object.assign(cardRef.current.style, cardStyle(regionHideProgress(region, progress)));
+  });
+
+  return (
+    <div ref={cardRef} data-ui className="w-full max-w-2xl px-6 py-8 bg-linear-to-br from-white/3 via-white/2 to-white/1 border border-white/10 shadow-xl backdrop-blur-md rounded-2xl transform hover:scale-[1.02] card-base" style={cardStyle(regionHideProgress(region, 0))}>
+      <div className="flex items-start gap-4">
+        <div className="shrink-0">
+          <div className="h-14 w-14 rounded-xl bg-linear-to-tr from-indigo-500 to-pink-500 flex items-center justify-center text-white text-xl">{region.icon}</div>
+        </div>
+
+        <div className="flex-1">
+          <h2 className="text-2xl font-semibold text-white">{localize(region.title, locale)}</h2>
+          <p className="mt-2 text-sm text-white/80">{localize(region.description, locale)}</p>
+
+          <div className="mt-4 flex flex-wrap gap-3">
+            <Link className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md text-sm hover:bg-indigo-500 transition" href={localePath(locale, `/region/${region.id}`)}>{m.card.explore}</Link>
+            <Link className="inline-flex items-center px-4 py-2 border border-white/10 text-white/90 rounded-md text-sm hover:bg-white/5 transition" href={`${localePath(locale, `/region/${region.id}`)}#overview`}>{m.card.learnMore}</Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+// components/RegionOverview.tsx
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { localize } from "@/lib/i18n";
+import type { Region } from "@/lib/regions";
+import { structuresInRegion } from "@/lib/structures";
+
+export default function RegionOverview({
+  region,
+  available,
+  onFocusStructure,
+}: {
+  region: Region;
+  // structure ids that have a mesh in the loaded model
+  available: Set<string>;
+  onFocusStructure: (structureId: string) => void;
+}) {
+  const { locale, m } = useI18n();
+  const structures = structuresInRegion(region.id);
+
+  return (
+    <aside
+      id="overview"
+      data-ui
+      className="fixed top-6 right-6 z-20 w-72 max-w-[calc(100vw-3rem)] px-5 py-4 text-white bg-black/60 border border-white/10 shadow-xl backdrop-blur-md rounded-2xl"
+    >
+      <div className="text-xs uppercase tracking-wide text-white/60">{m.region.label}</div>
+      <h2 className="mt-1 text-lg font-semibold">
+        {region.icon} {localize(region.title, locale)}
+      </h2>
+      <p className="mt-2 text-sm text-white/80">{localize(region.description, locale)}</p>
+
+      {structures.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {structures.map((s) => (
+            <li key={s.id}>
+              <button
+                type="button"
+                disabled={!available.has(s.id)}
+                className="w-full text-left px-2 py-1 text-sm rounded-md hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent transition"
+                onClick={() => onFocusStructure(s.id)}
+              >
+                {localize(s.name, locale)}
+                <span className="ml-2 text-[11px] text-white/50">{localize(s.group, locale)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,56 @@
+// components/RenderPanel.tsx
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+
+export const RENDER_MODES = ["standard", "xray", "wireframe", "group"] as const;
+export const HIGHLIGHT_EFFECTS = ["none", "outline", "bloom"] as const;
+export const LIGHTING_PRESETS = ["studio", "clinical", "rim"] as const;
+
+export type RenderMode = (typeof RENDER_MODES)[number];
+export type HighlightEffect = (typeof HIGHLIGHT_EFFECTS)[number];
+export type LightingPreset = (typeof LIGHTING_PRESETS)[number];
+
+export type RenderSettings = { mode: RenderMode; effect: HighlightEffect; lighting: LightingPreset };
+
+const selectClass = "w-full px-2 py-1 text-xs text-white bg-black/40 border border-white/10 rounded-md";
+
+export default function RenderPanel({ settings, onChange }: { settings: RenderSettings; onChange: (next: RenderSettings) => void }) {
+  const { m } = useI18n();
+  const update = (patch: Partial<RenderSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <section data-ui aria-label={m.render.label} className="w-56 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+      <h2 className="text-sm font-semibold">{m.render.title}</h2>
+      <label className="mt-2 block text-xs text-white/70">
+        {m.render.mode}
+        <select className={`mt-1 ${selectClass}`} value={settings.mode} onChange={(e) => update({ mode: e.target.value as RenderMode })}>
+          {RENDER_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {m.render[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="mt-2 block text-xs text-white/70">
+        {m.render.effect}
+        <select className={`mt-1 ${selectClass}`} value={settings.effect} onChange={(e) => update({ effect: e.target.value as HighlightEffect })}>
+          {HIGHLIGHT_EFFECTS.map((effect) => (
+            <option key={effect} value={effect}>
+              {m.render[effect]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="mt-2 block text-xs text-white/70">
+        {m.render.lighting}
+        <select className={`mt-1 ${selectClass}`} value={settings.lighting} onChange={(e) => update({ lighting: e.target.value as LightingPreset })}>
+          {LIGHTING_PRESETS.map((preset) => (
+            <option key={preset} value={preset}>
+              {m.render[preset]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </section>
+  );
+}
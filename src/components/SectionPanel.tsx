@@ -0,0 +1,59 @@
+// components/SectionPanel.tsx
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { format } from "@/lib/i18n";
+import { DEFAULT_SECTION, SECTION_AXES, type SectionAxis, type SectionPlane, type SectionState } from "@/lib/sections";
+
+export default function SectionPanel({ sections, onChange }: { sections: SectionState; onChange: (next: SectionState) => void }) {
+  const { m } = useI18n();
+
+  const update = (id: SectionAxis, plane: SectionPlane | null) => {
+    const next = { ...sections };
+    if (plane) next[id] = plane;
+    else delete next[id];
+    onChange(next);
+  };
+
+  return (
+    <section data-ui aria-label={m.sections.label} className="w-60 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+      <h2 className="text-sm font-semibold">{m.sections.title}</h2>
+
+      <ul className="mt-2 space-y-2">
+        {SECTION_AXES.map(({ id }) => {
+          const plane = sections[id];
+          const label = m.sections[id];
+          return (
+            <li key={id}>
+              <div className="flex items-center gap-2 text-sm">
+                <label className="flex flex-1 items-center gap-2">
+                  <input type="checkbox" checked={!!plane} onChange={(e) => update(id, e.target.checked ? DEFAULT_SECTION : null)} />
+                  <span>{label}</span>
+                </label>
+                <button
+                  type="button"
+                  disabled={!plane}
+                  aria-pressed={plane?.flipped ?? false}
+                  className="px-2 py-0.5 text-[11px] border border-white/10 rounded-md hover:bg-white/10 disabled:opacity-40 transition"
+                  onClick={() => plane && update(id, { ...plane, flipped: !plane.flipped })}
+                >
+                  {m.sections.flip}
+                </button>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.005}
+                value={plane?.position ?? DEFAULT_SECTION.position}
+                disabled={!plane}
+                aria-label={format(m.sections.position, { plane: label })}
+                className="w-full accent-rose-600"
+                onChange={(e) => plane && update(id, { ...plane, position: Number(e.target.value) })}
+              />
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,49 @@
+// components/StillView.tsx
+import React from "react";
+import { reportWebGLFailure } from "@/components/deviceSupport";
+import { useI18n } from "@/components/I18nProvider";
+import { localize } from "@/lib/i18n";
+import { REGIONS } from "@/lib/regions";
+
+// Stands in for the 3D view where WebGL isn't available: the icon of the
+// region the page is scrolled to, behind the same cards and panels.
+export default function StillView({ activeRegion }: { activeRegion: number }) {
+  const { locale, m } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-0">
+      {REGIONS.map((region, index) => (
+        <div
+          key={region.id}
+          aria-hidden={index !== activeRegion}
+          className={`absolute inset-0 flex items-center justify-center transition-opacity duration-500 motion-reduce:transition-none ${index === activeRegion ? "opacity-100" : "opacity-0"}`}
+        >
+          <span role="img" aria-label={localize(region.title, locale)} className="text-8xl">
+            {region.icon}
+          </span>
+        </div>
+      ))}
+      <p role="status" className="absolute bottom-6 left-6 max-w-sm px-4 py-3 text-sm text-white/80 bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+        {m.scene.noWebGL}
+      </p>
+    </div>
+  );
+}
+
+// Turns the page over to the still view when the 3D view throws: the canvas
+// re-throws any error inside it that no layer boundary catches.
+export class CanvasErrorBoundary extends React.Component<{ children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch() {
+    reportWebGLFailure();
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
@@ -0,0 +1,62 @@
+// components/StructurePanel.tsx
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { MeshInfo } from "@/lib/structures";
+
+export default function StructurePanel({ info, onClose }: { info: MeshInfo | null; onClose: () => void }) {
+  const { m } = useI18n();
+  if (!info) return null;
+
+  return (
+    <aside
+      data-ui
+      className="fixed top-6 right-6 z-20 w-72 max-w-[calc(100vw-3rem)] max-h-[calc(100vh-3rem)] overflow-y-auto px-5 py-4 text-white bg-black/60 border border-white/10 shadow-xl backdrop-blur-md rounded-2xl"
+      aria-live="polite"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-xs uppercase tracking-wide text-white/60">{info.group}</div>
+          <h2 className="mt-1 text-lg font-semibold">{info.name}</h2>
+        </div>
+        <button
+          type="button"
+          className="h-7 w-7 shrink-0 rounded-md border border-white/10 text-white/80 hover:bg-white/10 transition"
+          onClick={onClose}
+          aria-label={m.structure.close}
+        >
+          ×
+        </button>
+      </div>
+      <p className="mt-3 text-sm text-white/80">{info.description}</p>
+      {info.facts.length > 0 && (
+        <dl className="mt-3 space-y-1.5 text-xs">
+          {info.facts.map(({ fact, text }) => (
+            <div key={fact}>
+              <dt className="uppercase tracking-wide text-white/50">{m.structure[fact]}</dt>
+              <dd className="text-white/80">{text}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {info.references.length > 0 && (
+        <details className="mt-3 text-xs text-white/70">
+          <summary className="cursor-pointer hover:text-white">{m.structure.references}</summary>
+          <ul className="mt-1 space-y-1 list-disc pl-4">
+            {info.references.map((ref) => (
+              <li key={ref.title}>
+                {ref.url ? (
+                  <a href={ref.url} target="_blank" rel="noreferrer" className="underline hover:text-white">
+                    {ref.title}
+                  </a>
+                ) : (
+                  ref.title
+                )}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      <div className="mt-3 text-[11px] text-white/50 font-mono truncate" title={info.meshName}>{info.meshName}</div>
+    </aside>
+  );
+}
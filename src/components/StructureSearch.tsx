@@ -0,0 +1,91 @@
+// components/StructureSearch.tsx
+import React, { useId, useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { buildSearchIndex, searchStructures } from "@/lib/search";
+
+export default function StructureSearch({ nodeNames, onSelect }: { nodeNames: string[]; onSelect: (meshName: string) => void }) {
+  const { locale, m } = useI18n();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const listId = useId();
+
+  const index = useMemo(() => buildSearchIndex(nodeNames, locale), [nodeNames, locale]);
+  const results = useMemo(() => searchStructures(index, query), [index, query]);
+  const expanded = open && results.length > 0;
+
+  const choose = (i: number) => {
+    const r = results[i];
+    if (!r) return;
+    setQuery(r.label);
+    setOpen(false);
+    onSelect(r.meshName);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActive((a) => Math.min(a + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((a) => Math.max(a - 1, 0));
+    } else if (e.key === "Enter") {
+      if (expanded) {
+        e.preventDefault();
+        choose(active);
+      }
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div data-ui className="fixed top-6 left-1/2 -translate-x-1/2 z-30 w-80 max-w-[calc(100vw-3rem)]">
+      <input
+        type="search"
+        role="combobox"
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={expanded ? `${listId}-${active}` : undefined}
+        aria-label={m.search.label}
+        placeholder={nodeNames.length ? m.search.placeholder : m.search.loading}
+        disabled={!nodeNames.length}
+        className="w-full px-4 py-2 text-sm text-white placeholder:text-white/50 bg-black/60 border border-white/10 rounded-xl backdrop-blur-md outline-none focus:border-indigo-400"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+      />
+
+      {expanded && (
+        <ul id={listId} role="listbox" className="mt-2 max-h-72 overflow-auto py-1 bg-black/75 border border-white/10 rounded-xl backdrop-blur-md text-white">
+          {results.map((r, i) => (
+            <li
+              key={r.meshName}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === active}
+              className={`px-4 py-2 cursor-pointer ${i === active ? "bg-indigo-600/70" : "hover:bg-white/10"}`}
+              // mousedown so the pick lands before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(i);
+              }}
+              onMouseEnter={() => setActive(i)}
+            >
+              <div className="text-sm">{r.label}</div>
+              <div className="text-[11px] text-white/60">{r.group}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+// components/TourPanel.tsx
+import React, { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { createPlaybackClock } from "@/components/playbackClock";
+import { format, localize, type Locale } from "@/lib/i18n";
+import { TOURS, findTour, keyframeIndexAt, sampleTour, tourDuration, type TourPose } from "@/lib/tours";
+
+const SPEECH_LANG: Record<Locale, string> = { en: "en-US", id: "id-ID" };
+
+function speechAvailable() {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+// Tour playback state. Lives in the explorer because the scene needs the
+// pose and the highlighted structures.
+export function useTourPlayer() {
+  const { locale } = useI18n();
+  const [tourId, setTourId] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [index, setIndex] = useState(0);
+  const [narrate, setNarrate] = useState(false);
+  const [clock] = useState(createPlaybackClock);
+  // camera, target and yaw for the scene; null while no tour runs
+  const poseRef = useRef<TourPose | null>(null);
+
+  const tour = findTour(tourId) ?? null;
+
+  const seek = useCallback(
+    (time: number) => {
+      if (!tour) return;
+      const t = Math.min(Math.max(time, 0), tourDuration(tour));
+      clock.set(t);
+      poseRef.current = sampleTour(tour, t);
+      setIndex(keyframeIndexAt(tour, t));
+    },
+    [tour, clock]
+  );
+
+  useEffect(() => {
+    if (!tour || !playing) return;
+    let rafId: number | null = null;
+    let last: number | null = null;
+
+    const tick = (now: number) => {
+      const dt = last === null ? 0 : (now - last) / 1000;
+      last = now;
+      const end = tourDuration(tour);
+      const time = Math.min(clock.get() + dt, end);
+      clock.set(time);
+      poseRef.current = sampleTour(tour, time);
+      // bails out unless the caption actually changes
+      setIndex(keyframeIndexAt(tour, time));
+      if (time >= end) {
+        setPlaying(false);
+        rafId = null;
+        return;
+      }
+      rafId = requestAnimationFrame(tick);
+    };
+
+    rafId = requestAnimationFrame(tick);
+    return () => {
+      if (rafId != null) cancelAnimationFrame(rafId);
+    };
+  }, [tour, playing, clock]);
+
+  // narration reads each caption as playback reaches it
+  const keyframe = tour?.keyframes[index];
+  const caption = keyframe ? localize(keyframe.caption, locale) : "";
+  useEffect(() => {
+    if (!speechAvailable()) return;
+    window.speechSynthesis.cancel();
+    if (!playing || !narrate || !caption) return;
+    const utterance = new SpeechSynthesisUtterance(caption);
+    utterance.lang = SPEECH_LANG[locale];
+    window.speechSynthesis.speak(utterance);
+  }, [caption, playing, narrate, locale]);
+
+  useEffect(() => () => {
+    if (speechAvailable()) window.speechSynthesis.cancel();
+  }, []);
+
+  const start = (id: string) => {
+    const next = findTour(id);
+    if (!next) return;
+    setTourId(id);
+    clock.set(0);
+    poseRef.current = sampleTour(next, 0);
+    setIndex(0);
+    setPlaying(true);
+  };
+
+  const stop = () => {
+    setTourId(null);
+    setPlaying(false);
+    poseRef.current = null;
+  };
+
+  const play = () => {
+    // playing from the end starts over
+    if (tour && clock.get() >= tourDuration(tour)) seek(0);
+    setPlaying(true);
+  };
+
+  const highlights = keyframe?.highlight ?? [];
+
+  return {
+    active: !!tour,
+    tour,
+    playing,
+    index,
+    caption,
+    highlights,
+    narrate,
+    narrationAvailable: speechAvailable(),
+    clock,
+    poseRef,
+    start,
+    stop,
+    play,
+    pause: () => setPlaying(false),
+    seek,
+    setNarrate,
+  };
+}
+
+export type TourPlayer = ReturnType<typeof useTourPlayer>;
+
+const buttonClass = "px-3 py-1.5 text-sm border border-white/10 rounded-md hover:bg-white/10 transition";
+
+function formatTime(seconds: number) {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+export default function TourPanel({ player }: { player: TourPlayer }) {
+  const { locale, m } = useI18n();
+  const { clock } = player;
+  // tenths of a second are plenty for the readout and the slider
+  const time = useSyncExternalStore(
+    clock.subscribe,
+    () => Math.round(clock.get() * 10) / 10,
+    () => 0
+  );
+
+  if (!player.tour) {
+    return (
+      <div data-ui className="fixed top-36 left-6 z-20">
+        <button type="button" className={`${buttonClass} text-white bg-black/60 backdrop-blur-md`} onClick={() => player.start(TOURS[0].id)}>
+          {m.tour.open}
+        </button>
+      </div>
+    );
+  }
+
+  const { tour } = player;
+  const duration = tourDuration(tour);
+
+  return (
+    <>
+      <section data-ui aria-label={m.tour.title} className="fixed top-24 left-6 z-20 w-72 px-4 py-3 text-white bg-black/60 border border-white/10 rounded-2xl backdrop-blur-md">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold">{m.tour.title}</h2>
+          <button type="button" className="text-xs text-white/70 hover:text-white" onClick={player.stop}>
+            {m.tour.end}
+          </button>
+        </div>
+
+        <select
+          aria-label={m.tour.choose}
+          className="mt-2 w-full px-2 py-1 text-xs text-white bg-black/40 border border-white/10 rounded-md"
+          value={tour.id}
+          onChange={(e) => player.start(e.target.value)}
+        >
+          {TOURS.map((t) => (
+            <option key={t.id} value={t.id}>
+              {localize(t.title, locale)}
+            </option>
+          ))}
+        </select>
+
+        <div className="mt-3 flex items-center gap-2">
+          <button type="button" className={buttonClass} onClick={player.playing ? player.pause : player.play}>
+            {player.playing ? m.tour.pause : m.tour.play}
+          </button>
+          <span className="text-xs tabular-nums text-white/70">
+            {format(m.tour.time, { current: formatTime(time), total: formatTime(duration) })}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={time}
+          aria-label={m.tour.seek}
+          className="mt-2 w-full accent-indigo-500"
+          onChange={(e) => player.seek(Number(e.target.value))}
+        />
+
+        <label className="mt-2 flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={player.narrate} disabled={!player.narrationAvailable} onChange={(e) => player.setNarrate(e.target.checked)} />
+          {player.narrationAvailable ? m.tour.narration : m.tour.narrationUnavailable}
+        </label>
+      </section>
+
+      <div
+        data-ui
+        aria-live="polite"
+        className="fixed bottom-28 left-1/2 -translate-x-1/2 z-30 w-[36rem] max-w-[calc(100vw-3rem)] px-4 py-2 text-center text-sm text-white bg-black/70 rounded-xl"
+      >
+        {player.caption}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,49 @@
+// components/deviceSupport.ts
+// What the visitor's device can take: whether it renders WebGL at all, and
+// whether it is weak enough to start on low-detail models.
+import { useSyncExternalStore } from "react";
+import { LOW_END_CORES, LOW_END_MEMORY_GB } from "@/lib/sceneConfig";
+
+let webgl: boolean | null = null;
+const listeners = new Set<() => void>();
+
+function detectWebGL() {
+  try {
+    const canvas = document.createElement("canvas");
+    return !!(canvas.getContext("webgl2") ?? canvas.getContext("webgl"));
+  } catch {
+    return false;
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// The 3D view can run; server rendering assumes it can. Detected once, and
+// false for good after reportWebGLFailure.
+export function useWebGLSupport() {
+  return useSyncExternalStore(
+    subscribe,
+    () => (webgl ??= detectWebGL()),
+    () => true
+  );
+}
+
+// the canvas crashed although a context could be created
+export function reportWebGLFailure() {
+  if (webgl === false) return;
+  webgl = false;
+  listeners.forEach((l) => l());
+}
+
+// Few cores or little memory, as the browser reports them up front (Chromium
+// alone tells the memory). Measured frame times can still turn detail down later.
+export function isLowEndDevice() {
+  if (typeof navigator === "undefined") return false;
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  return (navigator.hardwareConcurrency || Infinity) <= LOW_END_CORES || (memory !== undefined && memory <= LOW_END_MEMORY_GB);
+}
@@ -0,0 +1,45 @@
+// components/gestureSettings.ts
+// The visitor's gesture sensitivity, kept in localStorage so it survives
+// reloads. Server rendering and first paint use the defaults.
+import { useSyncExternalStore } from "react";
+import { DEFAULT_GESTURE_SETTINGS, type GestureSettings } from "@/components/useGestures";
+
+const STORAGE_KEY = "anatomy-gesture-settings-v1";
+
+let settings: GestureSettings | null = null;
+const listeners = new Set<() => void>();
+
+function load(): GestureSettings {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_GESTURE_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<GestureSettings>;
+    const valid = Object.entries(parsed).filter(([key, value]) => key in DEFAULT_GESTURE_SETTINGS && typeof value === "number" && Number.isFinite(value) && value >= 0);
+    return { ...DEFAULT_GESTURE_SETTINGS, ...Object.fromEntries(valid) };
+  } catch {
+    return DEFAULT_GESTURE_SETTINGS;
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useGestureSettings() {
+  return useSyncExternalStore(
+    subscribe,
+    () => (settings ??= load()),
+    () => DEFAULT_GESTURE_SETTINGS
+  );
+}
+
+export function saveGestureSettings(next: GestureSettings) {
+  settings = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {}
+  listeners.forEach((l) => l());
+}
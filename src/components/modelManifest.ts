@@ -0,0 +1,36 @@
+// components/modelManifest.ts
+// The model manifest (lib/modelManifest), fetched once when something first
+// subscribes. Layers it doesn't list (no manifest yet, or a model added
+// without a rebuild) are read from their loaded scenes instead.
+import { useSyncExternalStore } from "react";
+import { MODEL_MANIFEST_URL, MODEL_MANIFEST_VERSION, type ModelManifest } from "@/lib/modelManifest";
+
+let manifest: ModelManifest | null = null;
+let requested = false;
+const listeners = new Set<() => void>();
+
+function load() {
+  if (requested) return;
+  requested = true;
+  fetch(MODEL_MANIFEST_URL)
+    .then((res) => (res.ok ? (res.json() as Promise<ModelManifest>) : null))
+    .then((data) => {
+      if (data?.version !== MODEL_MANIFEST_VERSION) return;
+      manifest = data;
+      listeners.forEach((l) => l());
+    })
+    .catch(() => {});
+}
+
+function subscribe(listener: () => void) {
+  load();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// null until it has loaded, and for good when there is none
+export function useModelManifest() {
+  return useSyncExternalStore(subscribe, () => manifest, () => null);
+}
@@ -0,0 +1,24 @@
+// components/playbackClock.ts
+
+// Playback time that lives outside React state: the scene reads it every
+// frame and only a panel's time readout subscribes to it. Shared by the
+// guided tours and the animation clips.
+export function createPlaybackClock() {
+  let time = 0;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => time,
+    set(next: number) {
+      time = next;
+      listeners.forEach((l) => l());
+    },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type PlaybackClock = ReturnType<typeof createPlaybackClock>;
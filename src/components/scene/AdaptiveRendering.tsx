@@ -0,0 +1,147 @@
+// components/scene/AdaptiveRendering.tsx
+import { useCallback, useEffect, useRef } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { DPR_STEP, FAST_FRAME_MS, IDLE_RENDER_DELAY, MAX_DPR, MIN_DPR, SLOW_FRAME_MS } from "@/lib/sceneConfig";
+
+type Frameloop = "always" | "demand" | "never";
+
+// frames averaged per frame-time sample
+const SAMPLE_FRAMES = 30;
+// a longer gap is a pause (on demand, hidden tab), not a slow frame
+const FRAME_GAP_MS = 250;
+// samples at the lowest resolution that still run slow before giving up
+const SLOW_SAMPLES = 4;
+// transform change below which nothing counts as moving
+const MOVE_EPSILON = 1e-4;
+const INPUT_EVENTS = ["pointerdown", "pointermove", "wheel", "keydown", "scroll", "resize"] as const;
+
+const _pose = new THREE.Matrix4();
+
+// the object's transform as its useFrame left it (matrixWorld only catches up at render)
+function poseOf(object: THREE.Object3D, target: THREE.Matrix4) {
+  return target.compose(object.position, object.quaternion, object.scale);
+}
+
+function moved(previous: THREE.Matrix4, next: THREE.Matrix4) {
+  return previous.elements.some((e, i) => Math.abs(e - next.elements[i]) > MOVE_EPSILON);
+}
+
+// Keeps the canvas cheap on slow machines. The resolution steps between
+// MIN_DPR and the screen's pixel ratio with the measured frame time. Once
+// there was no input and neither the camera nor the model moved for
+// IDLE_RENDER_DELAY, frames are only drawn on demand (input, a change r3f
+// sees or a re-render of the scene draws one, and movement wakes the loop
+// again); while the tab is hidden none are. `onSlow` fires once when even the
+// lowest resolution can't keep up. Render it after the components that move
+// the camera and the model, so it sees their poses in the same frame.
+export default function AdaptiveRendering({
+  rootRef,
+  busy = false,
+  onSlow,
+}: {
+  // the model group, watched for movement along with the camera
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  // a tour or clip is playing: keep drawing
+  busy?: boolean;
+  onSlow?: () => void;
+}) {
+  const setDpr = useThree((s) => s.setDpr);
+  const setFrameloop = useThree((s) => s.setFrameloop);
+  const invalidate = useThree((s) => s.invalidate);
+  const loopRef = useRef<Frameloop>("always");
+  const lastActive = useRef(0);
+  const sample = useRef({ last: 0, frames: 0, total: 0, slow: 0, gaveUp: false });
+  // current resolution, and the lowest one that ran slow (never climbed back to)
+  const dprRef = useRef({ current: 0, ceiling: Infinity });
+  const poses = useRef({ camera: new THREE.Matrix4(), projection: new THREE.Matrix4(), root: new THREE.Matrix4() });
+
+  // setFrameloop restarts the clock, so only call it on a change
+  const setLoop = useCallback(
+    (next: Frameloop) => {
+      if (loopRef.current === next) return;
+      loopRef.current = next;
+      setFrameloop(next);
+    },
+    [setFrameloop]
+  );
+
+  useEffect(() => {
+    const wake = () => {
+      if (document.hidden) return;
+      lastActive.current = performance.now();
+      setLoop("always");
+    };
+    const onVisibility = () => (document.hidden ? setLoop("never") : wake());
+
+    for (const type of INPUT_EVENTS) window.addEventListener(type, wake, { passive: true });
+    document.addEventListener("visibilitychange", onVisibility);
+    onVisibility();
+    return () => {
+      for (const type of INPUT_EVENTS) window.removeEventListener(type, wake);
+      document.removeEventListener("visibilitychange", onVisibility);
+      setLoop("always");
+    };
+  }, [setLoop]);
+
+  // a re-render of the scene may have changed what r3f doesn't see (swapped
+  // materials, refs read every frame): draw a frame and let it tell
+  useEffect(() => {
+    invalidate();
+  });
+
+  useFrame(({ camera, viewport }) => {
+    const now = performance.now();
+
+    const s = sample.current;
+    const dt = now - s.last;
+    s.last = now;
+    if (loopRef.current === "always" && dt < FRAME_GAP_MS) {
+      s.frames++;
+      s.total += dt;
+    }
+    if (s.frames >= SAMPLE_FRAMES) {
+      const average = s.total / s.frames;
+      s.frames = 0;
+      s.total = 0;
+      const dpr = dprRef.current;
+      dpr.current ||= viewport.dpr;
+      const max = Math.min(window.devicePixelRatio || 1, MAX_DPR);
+      if (average > SLOW_FRAME_MS) {
+        if (dpr.current > MIN_DPR) {
+          dpr.ceiling = dpr.current;
+          dpr.current = Math.max(MIN_DPR, dpr.current - DPR_STEP);
+          setDpr(dpr.current);
+        } else if (++s.slow >= SLOW_SAMPLES && !s.gaveUp) {
+          s.gaveUp = true;
+          onSlow?.();
+        }
+      } else {
+        s.slow = 0;
+        const next = Math.min(max, dpr.current + DPR_STEP);
+        if (average < FAST_FRAME_MS && next > dpr.current && next < dpr.ceiling) {
+          dpr.current = next;
+          setDpr(next);
+        }
+      }
+    }
+
+    const p = poses.current;
+    const root = rootRef.current;
+    let moving = moved(p.camera, poseOf(camera, _pose));
+    p.camera.copy(_pose);
+    moving = moved(p.projection, camera.projectionMatrix) || moving;
+    p.projection.copy(camera.projectionMatrix);
+    if (root) {
+      moving = moved(p.root, poseOf(root, _pose)) || moving;
+      p.root.copy(_pose);
+    }
+
+    if (moving || busy) {
+      lastActive.current = now;
+      setLoop("always");
+    } else if (now - lastActive.current > IDLE_RENDER_DELAY) setLoop("demand");
+  });
+
+  return null;
+}
@@ -0,0 +1,138 @@
+// components/scene/AnimationClips.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import type { PlaybackClock } from "@/components/playbackClock";
+import { LENGTH_CHANGE_RATE, LENGTHENING_COLOR, SHORTENING_COLOR } from "@/lib/sceneConfig";
+import type { GLTF } from "./types";
+import { meshesOf } from "./utils";
+import { Outline } from "./picking";
+
+// a clip of a loaded layer; `key` identifies it across renders
+export type AnimationClipInfo = { key: string; layerId: string; name: string; duration: number };
+
+// A deforming mesh and the two vertices furthest apart along its longest
+// axis; their skinned / morphed distance stands in for the muscle's length.
+type Strand = { mesh: THREE.Mesh; ends: [number, number] };
+
+const clipKey = (layerId: string, index: number) => `${layerId}:${index}`;
+
+function strandsOf(scene: THREE.Object3D): Strand[] {
+  const strands: Strand[] = [];
+  for (const mesh of meshesOf(scene)) {
+    const deforms = (mesh as THREE.SkinnedMesh).isSkinnedMesh || !!mesh.morphTargetInfluences?.length;
+    const position = mesh.geometry.getAttribute("position");
+    if (!deforms || !position) continue;
+    mesh.geometry.computeBoundingBox();
+    const size = mesh.geometry.boundingBox!.getSize(new THREE.Vector3());
+    const axis = size.x >= size.y && size.x >= size.z ? 0 : size.y >= size.z ? 1 : 2;
+    let min = 0;
+    let max = 0;
+    for (let i = 1; i < position.count; i++) {
+      if (position.getComponent(i, axis) < position.getComponent(min, axis)) min = i;
+      if (position.getComponent(i, axis) > position.getComponent(max, axis)) max = i;
+    }
+    if (min !== max) strands.push({ mesh, ends: [min, max] });
+  }
+  return strands;
+}
+
+// Plays one embedded clip with an AnimationMixer on its layer's scene, posed
+// at the clock's time every frame (so scrubbing and speed are the panel's
+// business). The mixer only moves nodes inside the scene, under the model
+// group that ModelInstance turns and bobs. With `colorCode`, deforming
+// meshes that shorten or lengthen as the clip runs forward are outlined.
+// Clearing the clip puts the scene back in its original pose.
+export default function AnimationClips({
+  layers,
+  clip,
+  clock,
+  colorCode = false,
+  onClips,
+}: {
+  // the visible, loaded layers
+  layers: { id: string; gltf: GLTF }[];
+  clip: string | null;
+  clock: PlaybackClock;
+  colorCode?: boolean;
+  onClips: (clips: AnimationClipInfo[]) => void;
+}) {
+  const [changing, setChanging] = useState<{ shortening: THREE.Mesh[]; lengthening: THREE.Mesh[] }>({ shortening: [], lengthening: [] });
+  const playback = useRef<{ mixer: THREE.AnimationMixer; action: THREE.AnimationAction; strands: Strand[]; lengths: number[]; time: number | null } | null>(null);
+  // outlined meshes as "uuid:state" pairs, to skip re-renders while nothing changes
+  const signature = useRef("");
+  const endPoints = useRef([new THREE.Vector3(), new THREE.Vector3()]);
+
+  useEffect(() => {
+    onClips(layers.flatMap(({ id, gltf }) => gltf.animations.map((c, i) => ({ key: clipKey(id, i), layerId: id, name: c.name, duration: c.duration }))));
+  }, [layers, onClips]);
+
+  const active = useMemo(() => {
+    const layer = layers.find(({ id }) => clip?.startsWith(`${id}:`));
+    const animation = layer && clip ? layer.gltf.animations[Number(clip.slice(layer.id.length + 1))] : undefined;
+    return layer && animation ? { scene: layer.gltf.scene, clip: animation } : null;
+  }, [layers, clip]);
+
+  useEffect(() => {
+    if (!active) return;
+    const mixer = new THREE.AnimationMixer(active.scene);
+    const action = mixer.clipAction(active.clip);
+    action.play();
+    const strands = strandsOf(active.scene);
+    playback.current = { mixer, action, strands, lengths: strands.map(() => 0), time: null };
+    return () => {
+      // stopping hands every animated property its original value back
+      mixer.stopAllAction();
+      mixer.uncacheRoot(active.scene);
+      playback.current = null;
+    };
+  }, [active]);
+
+  useFrame(() => {
+    const current = playback.current;
+    if (!current) return;
+    const time = Math.min(Math.max(clock.get(), 0), current.action.getClip().duration);
+    // a zero-delta update poses at action.time without ever finishing the action
+    current.action.time = time;
+    current.mixer.update(0);
+
+    if (!colorCode) {
+      current.time = null;
+      return;
+    }
+    // paused: keep the colors of the last step
+    if (current.time === time) return;
+    const dt = current.time === null ? 0 : time - current.time;
+    current.time = time;
+
+    const [a, b] = endPoints.current;
+    const shortening: THREE.Mesh[] = [];
+    const lengthening: THREE.Mesh[] = [];
+    current.strands.forEach(({ mesh, ends }, i) => {
+      const length = mesh.getVertexPosition(ends[0], a).distanceTo(mesh.getVertexPosition(ends[1], b));
+      const previous = current.lengths[i];
+      // relative change per second of clip time, so scrubbing backwards
+      // colors a muscle the way playing forward does
+      const rate = dt !== 0 && previous > 0 ? (length - previous) / previous / dt : 0;
+      current.lengths[i] = length;
+      if (rate < -LENGTH_CHANGE_RATE) shortening.push(mesh);
+      else if (rate > LENGTH_CHANGE_RATE) lengthening.push(mesh);
+    });
+    const next = [...shortening.map((m) => `${m.uuid}:s`), ...lengthening.map((m) => `${m.uuid}:l`)].join(",");
+    if (next === signature.current) return;
+    signature.current = next;
+    setChanging({ shortening, lengthening });
+  });
+
+  if (!colorCode || !active) return null;
+  return (
+    <>
+      {changing.shortening.map((mesh) => (
+        <Outline key={mesh.uuid} object={mesh} color={SHORTENING_COLOR} thickness={3} />
+      ))}
+      {changing.lengthening.map((mesh) => (
+        <Outline key={mesh.uuid} object={mesh} color={LENGTHENING_COLOR} thickness={3} />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,143 @@
+// components/scene/AnnotationPins.tsx
+import React, { useRef, useState } from "react";
+import { createPortal, useFrame } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import type { AnnotationDraft, Vec3 } from "@/lib/annotations";
+import { isClipped } from "./clipping";
+import { isShown } from "./utils";
+
+export type ResolvedPin = {
+  id: string;
+  node: THREE.Object3D;
+  offset: Vec3;
+  normal?: Vec3;
+  // already localized: <Html> renders in its own root, outside our context
+  title: string;
+  body?: string;
+  draft?: boolean;
+};
+
+// visibility is re-checked every few frames; raycasting the whole model per
+// pin per frame is not worth it for a fade
+const CHECK_EVERY = 4;
+
+const _pos = new THREE.Vector3();
+const _normal = new THREE.Vector3();
+const _toCamera = new THREE.Vector3();
+
+function AnnotationPin({
+  pin,
+  rootRef,
+  portal,
+  open,
+  onToggle,
+}: {
+  pin: ResolvedPin;
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  portal: React.RefObject<HTMLElement | null>;
+  open: boolean;
+  onToggle: () => void;
+}) {
+  const anchorRef = useRef<THREE.Group>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const raycasterRef = useRef(new THREE.Raycaster());
+  const frameRef = useRef(0);
+
+  // Hidden when the mesh is hidden or cut away, the surface faces away from
+  // the camera, or anything of the model sits between the camera and the pin.
+  useFrame((state) => {
+    const anchor = anchorRef.current;
+    const content = contentRef.current;
+    const root = rootRef.current;
+    if (!anchor || !content || !root || frameRef.current++ % CHECK_EVERY) return;
+
+    anchor.getWorldPosition(_pos);
+    _toCamera.copy(state.camera.position).sub(_pos);
+    const distance = _toCamera.length();
+    let visible = isShown(pin.node, root) && !isClipped(_pos);
+
+    if (visible && pin.normal) {
+      _normal.fromArray(pin.normal).transformDirection(pin.node.matrixWorld);
+      visible = _normal.dot(_toCamera) > 0;
+    }
+    if (visible) {
+      const raycaster = raycasterRef.current;
+      raycaster.set(state.camera.position, _toCamera.negate().normalize());
+      // stop just short of the surface the pin sits on
+      raycaster.far = distance * 0.995;
+      visible = !raycaster.intersectObject(root, true).some((h) => isShown(h.object, root) && !isClipped(h.point));
+    }
+
+    content.style.opacity = visible ? "1" : "0";
+    content.style.pointerEvents = visible ? "auto" : "none";
+  });
+
+  return createPortal(
+    <group ref={anchorRef} position={pin.offset}>
+      {/* drei only reads portal.current, which is set by the time pins mount */}
+      <Html portal={portal as React.RefObject<HTMLElement>} center zIndexRange={[20, 0]}>
+        <div ref={contentRef} data-ui className="relative transition-opacity duration-200" style={{ opacity: 0 }}>
+          <button
+            type="button"
+            aria-expanded={open}
+            aria-label={pin.title}
+            className={`block h-4 w-4 rounded-full border-2 border-white shadow ${pin.draft ? "bg-amber-400" : "bg-indigo-500"}`}
+            onClick={onToggle}
+          />
+          {open && (
+            <div className="absolute left-5 top-1/2 -translate-y-1/2 w-56 px-3 py-2 text-white bg-black/75 border border-white/10 rounded-xl backdrop-blur-md">
+              <div className="text-sm font-semibold">{pin.title}</div>
+              {pin.body && <p className="mt-1 text-xs text-white/80">{pin.body}</p>}
+            </div>
+          )}
+        </div>
+      </Html>
+    </group>,
+    pin.node
+  );
+}
+
+// Pins live in their node's local space (portaled into the node), so they
+// follow the model rotation, bob and scale from ModelInstance for free.
+export default function AnnotationPins({
+  pins,
+  rootRef,
+  portal,
+}: {
+  pins: ResolvedPin[];
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  // DOM layer above the page content; the canvas itself sits under <main>
+  portal: React.RefObject<HTMLElement | null>;
+}) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <>
+      {pins.map((pin) => (
+        <React.Fragment key={pin.id}>
+          <AnnotationPin
+            pin={pin}
+            rootRef={rootRef}
+            portal={portal}
+            open={openId === pin.id || !!pin.draft}
+            onToggle={() => setOpenId((id) => (id === pin.id ? null : pin.id))}
+          />
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+// Surface point of a picking hit, expressed in the named node's local space.
+export function draftFromHit(node: THREE.Object3D, hit: THREE.Intersection): AnnotationDraft {
+  const offset = node.worldToLocal(hit.point.clone());
+  let normal: Vec3 | undefined;
+  if (hit.face) {
+    // face normal is in the hit geometry's space: to world, then to the node
+    const world = hit.face.normal.clone().transformDirection(hit.object.matrixWorld);
+    const inverse = new THREE.Matrix4().copy(node.matrixWorld).invert();
+    normal = world.transformDirection(inverse).toArray() as Vec3;
+  }
+  return { mesh: node.name, offset: offset.toArray() as Vec3, normal };
+}
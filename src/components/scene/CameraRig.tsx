@@ -0,0 +1,160 @@
+// components/scene/CameraRig.tsx
+import React, { useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { getSceneTuning } from "@/components/sceneTuning";
+import { getScrollProgress } from "@/components/scrollProgress";
+import type { ViewControl } from "@/components/useGestures";
+import useReducedMotion from "@/components/useReducedMotion";
+import { EASINGS, type Easing } from "@/lib/easing";
+import { CAMERA_FOV, FOCUS_PADDING, FRAMING_ASPECT } from "@/lib/sceneConfig";
+import type { TourPose } from "@/lib/tours";
+
+// a region's camera: world position, look-at point, vertical fov in degrees
+// and the easing of the flight into it
+export type SectionTarget = { position: THREE.Vector3; lookAt: THREE.Vector3; fov: number; easing: Easing };
+
+// world measures the model-relative tour and region positions resolve against
+export type ModelFraming = { bottomY: number; height: number; baseZ: number };
+
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+
+// Scroll-driven flight through the section targets along Catmull-Rom splines
+// (one for the position, one for the look-at point), each segment eased by
+// the target it leads into; or, when `focus` is set, an override that frames
+// that object's bounding box. The user's pitch, zoom and pan from `control`
+// are applied on top of both; a playing tour overrides everything. Viewports
+// narrower than FRAMING_ASPECT back the camera off so the framing keeps its
+// width. With reduced motion the camera jumps instead of flying.
+export default function CameraRig({
+  sectionTargets,
+  focus,
+  framing = null,
+  tourPose,
+  control,
+  progress = null,
+}: {
+  sectionTargets: SectionTarget[] | null;
+  focus: THREE.Object3D | null;
+  framing?: ModelFraming | null;
+  tourPose?: React.RefObject<TourPose | null>;
+  control?: React.RefObject<ViewControl>;
+  // scroll progress to fly to instead of the page's (an unlinked comparison
+  // viewport stays on its own region)
+  progress?: number | null;
+}) {
+  const reducedMotion = useReducedMotion();
+
+  const lookAtRef = useRef<THREE.Vector3 | null>(null);
+  const lookAtTarget = useRef(new THREE.Vector3());
+  const focusBox = useRef(new THREE.Box3());
+  const focusSphere = useRef(new THREE.Sphere());
+  const cameraTarget = useRef(new THREE.Vector3());
+  const orbitOffset = useRef(new THREE.Vector3());
+
+  // centripetal, so uneven region spacing doesn't overshoot or loop
+  const path = useMemo(() => {
+    if (!sectionTargets || sectionTargets.length < 2) return null;
+    return {
+      position: new THREE.CatmullRomCurve3(sectionTargets.map((target) => target.position), false, "centripetal"),
+      lookAt: new THREE.CatmullRomCurve3(sectionTargets.map((target) => target.lookAt), false, "centripetal"),
+    };
+  }, [sectionTargets]);
+
+  useFrame(({ camera, size }) => {
+    const t = progress ?? getScrollProgress();
+    const { modelYOffset, cameraLerp, focusCameraLerp, lookAtLerp } = getSceneTuning();
+
+    const ease = (alpha: number) => (reducedMotion ? 1 : alpha);
+    const aspect = size.width / Math.max(size.height, 1);
+    const backOff = Math.max(1, FRAMING_ASPECT / aspect);
+
+    // eases the field of view; only a perspective camera has one
+    const zoomLens = (fov: number, alpha: number) => {
+      if (!(camera instanceof THREE.PerspectiveCamera) || Math.abs(camera.fov - fov) < 1e-3) return;
+      camera.fov += (fov - camera.fov) * alpha;
+      camera.updateProjectionMatrix();
+    };
+
+    // moves a framing's camera away from its look-at point on narrow viewports
+    const fitAspect = (position: THREE.Vector3, look: THREE.Vector3) => {
+      if (backOff === 1) return;
+      position.sub(look).multiplyScalar(backOff).add(look);
+    };
+
+    // eases the lookAt point; the first target is taken as-is
+    const lookTowards = (target: THREE.Vector3, alpha: number) => {
+      if (!lookAtRef.current) lookAtRef.current = target.clone();
+      else lookAtRef.current.lerp(target, alpha);
+      camera.lookAt(lookAtRef.current);
+    };
+
+    // the user's view on top of a framing: zoom along the line of sight,
+    // pitch around the look-at point, then pan both; updates in place
+    const orbit = (position: THREE.Vector3, look: THREE.Vector3) => {
+      if (!control) return look;
+      const { pitch, zoom, pan } = control.current;
+      const offset = orbitOffset.current.copy(position).sub(look).divideScalar(zoom).applyAxisAngle(X_AXIS, -pitch);
+      position.copy(look).add(offset);
+      position.x += pan[0];
+      position.y += pan[1];
+      look.x += pan[0];
+      look.y += pan[1];
+      return look;
+    };
+
+    const pose = tourPose?.current;
+    if (pose && framing) {
+      const { bottomY, height, baseZ } = framing;
+      const [cx, cy, cz] = pose.camera;
+      const [lx, ly, lz] = pose.lookAt;
+      const position = cameraTarget.current.set(cx * baseZ, bottomY + height * cy + modelYOffset, cz * baseZ);
+      const look = lookAtTarget.current.set(lx * baseZ, bottomY + height * ly, lz * baseZ);
+      fitAspect(position, look);
+      // seeking jumps the pose; easing here keeps the camera from cutting
+      camera.position.lerp(position, ease(cameraLerp));
+      lookTowards(look, ease(lookAtLerp));
+      zoomLens(CAMERA_FOV, ease(cameraLerp));
+      return;
+    }
+
+    if (focus) {
+      const sphere = focusBox.current.setFromObject(focus).getBoundingSphere(focusSphere.current);
+      // the sphere has to fit the narrower of the vertical and horizontal fov
+      const halfFov = THREE.MathUtils.degToRad(CAMERA_FOV) / 2;
+      const halfFit = Math.min(halfFov, Math.atan(Math.tan(halfFov) * aspect));
+      const distance = Math.max(0.4, (sphere.radius / Math.sin(halfFit)) * FOCUS_PADDING);
+
+      const position = cameraTarget.current.copy(sphere.center);
+      position.z += distance;
+      const look = orbit(position, lookAtTarget.current.copy(sphere.center));
+      camera.position.lerp(position, ease(focusCameraLerp));
+      lookTowards(look, ease(lookAtLerp));
+      zoomLens(CAMERA_FOV, ease(focusCameraLerp));
+      return;
+    }
+
+    // nothing to frame until the model bbox is known
+    if (!sectionTargets || sectionTargets.length === 0) return;
+    const targets = sectionTargets;
+
+    const segments = Math.max(1, targets.length - 1);
+    const scaled = Math.min(Math.max(t * segments, 0), segments);
+    const i = Math.min(Math.floor(scaled), segments - 1);
+    const a = targets[i];
+    const b = targets[Math.min(i + 1, targets.length - 1)];
+    const localT = EASINGS[b.easing](scaled - i);
+
+    // the curves pass through the targets at u = index / segments
+    const u = (i + localT) / segments;
+    const position = path ? path.position.getPoint(u, cameraTarget.current) : cameraTarget.current.copy(a.position);
+    const look = path ? path.lookAt.getPoint(u, lookAtTarget.current) : lookAtTarget.current.copy(a.lookAt);
+    fitAspect(position, look);
+    orbit(position, look);
+    camera.position.lerp(position, ease(cameraLerp));
+    lookTowards(look, ease(lookAtLerp));
+    zoomLens(a.fov + (b.fov - a.fov) * localT, ease(cameraLerp));
+  });
+
+  return null;
+}
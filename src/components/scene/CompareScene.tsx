@@ -0,0 +1,110 @@
+// components/scene/CompareScene.tsx
+import React, { Suspense, useCallback, useMemo, useRef, useState } from "react";
+import * as THREE from "three";
+import { useModelManifest } from "@/components/modelManifest";
+import { useSceneTuning } from "@/components/sceneTuning";
+import type { LightingPreset } from "@/components/RenderPanel";
+import type { ViewControl } from "@/components/useGestures";
+import { LAYERS, type LayerSettings } from "@/lib/layers";
+import { findManifestLayer } from "@/lib/modelManifest";
+import type { TourPose } from "@/lib/tours";
+import AdaptiveRendering from "./AdaptiveRendering";
+import CameraRig from "./CameraRig";
+import LayerModel, { LayerErrorBoundary } from "./LayerModel";
+import Lighting from "./Lighting";
+import ModelInstance from "./ModelInstance";
+import { HoverOutline, MeshPicker, SelectionHighlight } from "./picking";
+import type { GLTF } from "./types";
+import useModelBBox from "./useModelBBox";
+import useRegionTargets from "./useRegionTargets";
+
+// The second viewport of the comparison view: its own copy of the chosen
+// layers in its own ModelInstance and CameraRig, so it can follow the main
+// view (same control, page scroll and selection) or be turned on its own.
+// Section planes, the exploded view and the tools stay in the main view.
+export default function CompareScene({
+  control,
+  layers,
+  layerUrls,
+  restoreYaw = null,
+  selectedName,
+  onSelect,
+  focusName,
+  progress = null,
+  tourPose,
+  lighting = "studio",
+  playing = false,
+}: {
+  control: React.RefObject<ViewControl>;
+  layers: LayerSettings;
+  // the main view's files per layer id, so both load the same copy
+  layerUrls?: Record<string, string>;
+  restoreYaw?: number | null;
+  selectedName: string | null;
+  onSelect: (name: string | null) => void;
+  focusName: string | null;
+  // fixed scroll progress to frame; null follows the page
+  progress?: number | null;
+  tourPose?: React.RefObject<TourPose | null>;
+  lighting?: LightingPreset;
+  // a tour the viewport follows is playing
+  playing?: boolean;
+}) {
+  const { modelScale } = useSceneTuning();
+  const manifest = useModelManifest();
+  const modelRef = useRef<THREE.Group | null>(null);
+  const [loaded, setLoaded] = useState<Record<string, GLTF>>({});
+  const [hoveredName, setHoveredName] = useState<string | null>(null);
+
+  const onLayerLoaded = useCallback((id: string, gltf: GLTF) => {
+    setLoaded((l) => (l[id] === gltf ? l : { ...l, [id]: gltf }));
+  }, []);
+
+  const mountedLayers = LAYERS.filter((l) => layers[l.id]?.visible || loaded[l.id]);
+  const visibleLayers = useMemo(() => LAYERS.filter((l) => layers[l.id]?.visible && loaded[l.id]), [layers, loaded]);
+  const bboxSources = useMemo(
+    () => visibleLayers.map((l) => ({ scene: loaded[l.id].scene, box: findManifestLayer(manifest, l.id)?.box })),
+    [visibleLayers, loaded, manifest]
+  );
+  const bbox = useModelBBox(bboxSources, modelScale);
+  const { framing, sectionTargets } = useRegionTargets(bbox);
+
+  const findNode = useCallback(
+    (name: string | null) => {
+      if (!name) return null;
+      for (const layer of visibleLayers) {
+        const node = loaded[layer.id].nodes[name];
+        if (node) return node;
+      }
+      return null;
+    },
+    [visibleLayers, loaded]
+  );
+
+  const focusObject = useMemo(() => findNode(focusName), [findNode, focusName]);
+  const selectedObject = useMemo(() => findNode(selectedName), [findNode, selectedName]);
+  const hoveredObject = useMemo(() => (hoveredName !== selectedName ? findNode(hoveredName) : null), [findNode, hoveredName, selectedName]);
+
+  return (
+    <>
+      <Lighting preset={lighting} />
+      <ModelInstance groupRef={modelRef} bbox={bbox} control={control} focusObject={focusObject} restoreYaw={restoreYaw} tourPose={tourPose} progress={progress}>
+        {mountedLayers.map((layer) => (
+          // a layer that fails to load just stays out of this viewport; the
+          // main view reports it once it is shown there
+          <LayerErrorBoundary key={`${layer.id}:${layerUrls?.[layer.id] ?? layer.url}`} onError={() => {}}>
+            <Suspense fallback={null}>
+              <LayerModel layer={layer} state={layers[layer.id]} onLoaded={onLayerLoaded} url={layerUrls?.[layer.id]} clone />
+            </Suspense>
+          </LayerErrorBoundary>
+        ))}
+      </ModelInstance>
+
+      <MeshPicker rootRef={modelRef} onHover={setHoveredName} onSelect={onSelect} />
+      <SelectionHighlight object={selectedObject} />
+      <HoverOutline object={hoveredObject} />
+      <CameraRig sectionTargets={sectionTargets} focus={focusObject} framing={framing} tourPose={tourPose} control={control} progress={progress} />
+      <AdaptiveRendering rootRef={modelRef} busy={playing} />
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+// components/scene/DebugGizmos.tsx
+import React, { useMemo, useRef, useSyncExternalStore } from "react";
+import { Line } from "@react-three/drei";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import type { SectionTarget } from "./CameraRig";
+import type { BBox } from "./types";
+
+export type RenderStats = { fps: number; calls: number; triangles: number };
+
+const STATS_INTERVAL = 0.5; // seconds between published samples
+
+let stats: RenderStats = { fps: 0, calls: 0, triangles: 0 };
+const listeners = new Set<() => void>();
+
+function subscribeStats(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// renderer numbers sampled by <RenderStatsProbe>, for the debug panel
+export function useRenderStats() {
+  return useSyncExternalStore(subscribeStats, () => stats, () => stats);
+}
+
+// Samples frame rate, draw calls and triangles twice a second. The renderer
+// resets its counters when a frame starts, so in useFrame they still hold
+// the previous frame's totals.
+export function RenderStatsProbe() {
+  const sample = useRef({ frames: 0, elapsed: 0 });
+
+  useFrame(({ gl }, delta) => {
+    const s = sample.current;
+    s.frames++;
+    s.elapsed += delta;
+    if (s.elapsed < STATS_INTERVAL) return;
+    stats = { fps: Math.round(s.frames / s.elapsed), calls: gl.info.render.calls, triangles: gl.info.render.triangles };
+    s.frames = 0;
+    s.elapsed = 0;
+    listeners.forEach((l) => l());
+  });
+
+  return null;
+}
+
+const noRaycast = () => {};
+
+// Debug overlays: the model bbox, following the model group's height but
+// not its rotation (it is measured unrotated), and every region's camera
+// position and look-at point joined by a line.
+export default function DebugGizmos({
+  rootRef,
+  bbox,
+  sectionTargets,
+  showBBox,
+  showTargets,
+}: {
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  bbox: BBox | null;
+  sectionTargets: SectionTarget[] | null;
+  showBBox: boolean;
+  showTargets: boolean;
+}) {
+  const boxRef = useRef<THREE.Group>(null);
+
+  const boxHelper = useMemo(() => {
+    if (!bbox) return null;
+    const helper = new THREE.Box3Helper(new THREE.Box3(bbox.min.clone(), bbox.max.clone()), "#22c55e");
+    helper.userData.helper = true;
+    helper.raycast = noRaycast;
+    return helper;
+  }, [bbox]);
+
+  useFrame(() => {
+    if (boxRef.current && rootRef.current) boxRef.current.position.y = rootRef.current.position.y;
+  });
+
+  return (
+    <>
+      {showBBox && boxHelper && (
+        <group ref={boxRef}>
+          <primitive object={boxHelper} />
+        </group>
+      )}
+      {showTargets &&
+        sectionTargets?.map((target, i) => (
+          <group key={i}>
+            <mesh position={target.position} raycast={noRaycast} userData={{ helper: true }}>
+              <sphereGeometry args={[0.05, 12, 12]} />
+              <meshBasicMaterial color="#f97316" />
+            </mesh>
+            <mesh position={target.lookAt} raycast={noRaycast} userData={{ helper: true }}>
+              <sphereGeometry args={[0.04, 12, 12]} />
+              <meshBasicMaterial color="#38bdf8" />
+            </mesh>
+            <Line points={[target.position, target.lookAt]} color="#f97316" lineWidth={1} dashed dashSize={0.1} gapSize={0.05} />
+          </group>
+        ))}
+    </>
+  );
+}
@@ -0,0 +1,132 @@
+// components/scene/ExplodedView.tsx
+import React, { useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import useReducedMotion from "@/components/useReducedMotion";
+import { EXPLODE_DISTANCE } from "@/lib/sceneConfig";
+import { meshSide } from "@/lib/meshNames";
+import { findStructureByMesh } from "@/lib/structures";
+import type { BBox } from "./types";
+import { meshesOf, namedAncestor, restoreRestPositions } from "./utils";
+
+type Unit = {
+  node: THREE.Object3D;
+  rest: THREE.Vector3;
+  // displacement at amount 1, in the node's parent space
+  offset: THREE.Vector3;
+  region: string | null;
+  // eased 0..1 share of the offset currently applied
+  current: number;
+};
+
+const EPSILON = 1e-4;
+
+// Each unit moves along the model-space vector from bbox.center to its
+// centroid, so parts far from the core travel further than the ones near it.
+// Grouped, all meshes of a muscle group (per side) share one centroid.
+function buildUnits(root: THREE.Object3D, scenes: THREE.Object3D[], bbox: BBox, grouped: boolean, meshRegions: ReadonlyMap<string, string | null>) {
+  const center = bbox.center.clone().divideScalar(bbox.scale);
+  const toRoot = new THREE.Matrix4().copy(root.matrixWorld).invert();
+
+  const nodes = new Set<THREE.Object3D>();
+  for (const scene of scenes) {
+    for (const mesh of meshesOf(scene)) nodes.add(namedAncestor(mesh, scene) ?? mesh);
+  }
+
+  const centroids = new Map<THREE.Object3D, THREE.Vector3>();
+  const groups = new Map<string, THREE.Vector3[]>();
+  for (const node of nodes) {
+    const centroid = new THREE.Box3().setFromObject(node).getCenter(new THREE.Vector3()).applyMatrix4(toRoot);
+    centroids.set(node, centroid);
+    const structure = grouped ? findStructureByMesh(node.name) : undefined;
+    if (structure) {
+      const key = `${structure.group.en}|${meshSide(node.name) ?? ""}`;
+      groups.set(key, [...(groups.get(key) ?? []), centroid]);
+    }
+  }
+
+  const units: Unit[] = [];
+  for (const node of nodes) {
+    if (!node.parent) continue;
+    const structure = grouped ? findStructureByMesh(node.name) : undefined;
+    const members = structure ? groups.get(`${structure.group.en}|${meshSide(node.name) ?? ""}`) : undefined;
+    const centroid = members
+      ? members.reduce((sum, c) => sum.add(c), new THREE.Vector3()).divideScalar(members.length)
+      : centroids.get(node)!.clone();
+    const direction = centroid.sub(center).multiplyScalar(EXPLODE_DISTANCE);
+
+    // model space -> parent space, translation cancelled out
+    const toParent = new THREE.Matrix4().copy(node.parent.matrixWorld).invert().multiply(root.matrixWorld);
+    const origin = new THREE.Vector3().applyMatrix4(toParent);
+    const offset = direction.applyMatrix4(toParent).sub(origin);
+
+    node.userData.restPosition ??= node.position.toArray();
+    units.push({
+      node,
+      rest: new THREE.Vector3().fromArray(node.userData.restPosition),
+      offset,
+      region: meshRegions.get(node.name) ?? null,
+      current: 0,
+    });
+  }
+  return units;
+}
+
+// Exploded view: eased like the rest of ModelInstance, and exact at 0, where
+// every node is put back on its stored rest position.
+export default function ExplodedView({
+  rootRef,
+  bbox,
+  scenes,
+  amount,
+  grouped,
+  regionId = null,
+  meshRegions,
+}: {
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  bbox: BBox | null;
+  // loaded layer scenes
+  scenes: THREE.Object3D[];
+  // 0..1
+  amount: number;
+  grouped: boolean;
+  // when set, only this region's structures move
+  regionId?: string | null;
+  // Region id of each mesh name (see the model manifest)
+  meshRegions: ReadonlyMap<string, string | null>;
+}) {
+  const reducedMotion = useReducedMotion();
+  const unitsRef = useRef<Unit[]>([]);
+  const builtForRef = useRef<{ scenes: THREE.Object3D[]; bbox: BBox; grouped: boolean; meshRegions: ReadonlyMap<string, string | null> } | null>(null);
+
+  // put every node back when the scenes change or the view unmounts
+  useEffect(() => () => scenes.forEach(restoreRestPositions), [scenes]);
+
+  useFrame(() => {
+    const root = rootRef.current;
+    if (!root || !bbox) return;
+    const built = builtForRef.current;
+    const rebuild = !built || built.scenes !== scenes || built.bbox !== bbox || built.grouped !== grouped || built.meshRegions !== meshRegions;
+    if (rebuild) {
+      // measure from the authored layout, not from a half-exploded one
+      scenes.forEach(restoreRestPositions);
+      root.updateMatrixWorld(true);
+      // keep each node's eased progress so a rebuild doesn't snap the layout
+      const previous = new Map(unitsRef.current.map((u) => [u.node, u.current]));
+      unitsRef.current = buildUnits(root, scenes, bbox, grouped, meshRegions).map((u) => ({ ...u, current: previous.get(u.node) ?? 0 }));
+      builtForRef.current = { scenes, bbox, grouped, meshRegions };
+    }
+
+    for (const unit of unitsRef.current) {
+      const target = regionId === null || unit.region === regionId ? amount : 0;
+      // after a rebuild every node sits at rest and needs its offset back
+      if (unit.current === target && !rebuild) continue;
+      unit.current += (target - unit.current) * (reducedMotion ? 1 : 0.1);
+      if (Math.abs(target - unit.current) < EPSILON) unit.current = target;
+      if (unit.current === 0) unit.node.position.copy(unit.rest);
+      else unit.node.position.copy(unit.rest).addScaledVector(unit.offset, unit.current);
+    }
+  });
+
+  return null;
+}
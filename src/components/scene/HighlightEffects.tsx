@@ -0,0 +1,42 @@
+// components/scene/HighlightEffects.tsx
+import React, { useMemo } from "react";
+import { EffectComposer, Outline, SelectiveBloom, ToneMapping } from "@react-three/postprocessing";
+import * as THREE from "three";
+import type { HighlightEffect } from "@/components/RenderPanel";
+import { HIGHLIGHT_COLOR } from "@/lib/sceneConfig";
+import type { LightRig } from "./Lighting";
+import { meshesOf } from "./utils";
+
+// postprocessing's ToneMappingMode.ACES_FILMIC: the composer turns the
+// renderer's own tone mapping off, so the effect chain ends with r3f's default
+const ACES_FILMIC = 6;
+const EDGE_COLOR = new THREE.Color(HIGHLIGHT_COLOR).getHex();
+
+// Post-processed outline or glow around the selected and hovered structures,
+// in place of the drei outlines. The effects select layers per mesh, so the
+// objects are expanded to their meshes.
+export default function HighlightEffects({
+  effect,
+  objects,
+  rig,
+}: {
+  effect: Exclude<HighlightEffect, "none">;
+  objects: (THREE.Object3D | null)[];
+  rig: LightRig;
+}) {
+  const selection = useMemo(() => objects.flatMap(meshesOf), [objects]);
+  // the lights are mounted before the effect reads the refs
+  const lights = useMemo(() => [rig.ambient, rig.key, rig.fill, rig.rim] as React.RefObject<THREE.Object3D>[], [rig]);
+
+  return (
+    // the stencil buffer keeps the section caps working through the composer
+    <EffectComposer stencilBuffer multisampling={4}>
+      {effect === "outline" ? (
+        <Outline selection={selection} visibleEdgeColor={EDGE_COLOR} hiddenEdgeColor={EDGE_COLOR} edgeStrength={4} blur xRay />
+      ) : (
+        <SelectiveBloom selection={selection} lights={lights} luminanceThreshold={0} intensity={1.5} mipmapBlur />
+      )}
+      <ToneMapping mode={ACES_FILMIC} />
+    </EffectComposer>
+  );
+}
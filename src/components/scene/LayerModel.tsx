@@ -0,0 +1,107 @@
+// components/scene/LayerModel.tsx
+import React, { useEffect, useMemo } from "react";
+import * as THREE from "three";
+import { SkeletonUtils } from "three-stdlib";
+import type { LayerDef, LayerState } from "@/lib/layers";
+import { modelClippingPlanes } from "./clipping";
+import { useModelGLTF } from "./loaders";
+import type { GLTF } from "./types";
+import { meshesOf, restoreRestPositions } from "./utils";
+
+// A copy of a loaded model for a second viewport (an object has only one
+// parent): own nodes and materials, shared geometry, without tool helpers
+// or exploded offsets.
+function cloneModel(source: GLTF): GLTF {
+  const scene = SkeletonUtils.clone(source.scene) as THREE.Group;
+  const helpers: THREE.Object3D[] = [];
+  scene.traverse((o) => {
+    if (o.userData.helper) helpers.push(o);
+  });
+  for (const helper of helpers) helper.removeFromParent();
+  restoreRestPositions(scene);
+
+  const nodes: Record<string, THREE.Object3D> = {};
+  const materials: Record<string, THREE.Material> = {};
+  const copies = new Map<THREE.Material, THREE.Material>();
+  const copy = (material: THREE.Material) => {
+    let clone = copies.get(material);
+    if (!clone) {
+      clone = material.clone();
+      copies.set(material, clone);
+      materials[clone.name && !materials[clone.name] ? clone.name : clone.uuid] = clone;
+    }
+    return clone;
+  };
+  scene.traverse((o) => {
+    if (o.name) nodes[o.name] ??= o;
+    const mesh = o as THREE.Mesh;
+    if (mesh.isMesh) mesh.material = Array.isArray(mesh.material) ? mesh.material.map(copy) : copy(mesh.material);
+  });
+  return { scene, nodes, materials, animations: source.animations };
+}
+
+// Applies layer opacity to the GLB's own materials and orders inner layers
+// first so translucent outer layers blend over them. With `clone` it renders
+// a copy of the model instead, which the section planes don't cut. `url`
+// picks the file (the low-detail copy); the layer's own by default.
+export default function LayerModel({
+  layer,
+  state,
+  onLoaded,
+  clone = false,
+  url = layer.url,
+}: {
+  layer: LayerDef;
+  state: LayerState;
+  onLoaded: (id: string, gltf: GLTF) => void;
+  clone?: boolean;
+  url?: string;
+}) {
+  const source = useModelGLTF(url);
+  const gltf = useMemo(() => (clone ? cloneModel(source) : source), [clone, source]);
+
+  useEffect(() => {
+    if (gltf === source) return;
+    return () => Object.values(gltf.materials).forEach((material) => material.dispose());
+  }, [gltf, source]);
+
+  useEffect(() => {
+    onLoaded(layer.id, gltf);
+  }, [layer.id, gltf, onLoaded]);
+
+  useEffect(() => {
+    const translucent = state.opacity < 0.999;
+    for (const mesh of meshesOf(gltf.scene)) {
+      mesh.renderOrder = -layer.peel;
+      for (const material of Array.isArray(mesh.material) ? mesh.material : [mesh.material]) {
+        if (material.transparent !== translucent) {
+          material.transparent = translucent;
+          material.needsUpdate = true;
+        }
+        material.opacity = state.opacity;
+        material.depthWrite = !translucent;
+        material.clippingPlanes = clone ? null : modelClippingPlanes;
+      }
+    }
+  }, [gltf, clone, layer.peel, state.opacity]);
+
+  return <primitive object={gltf.scene} visible={state.visible} />;
+}
+
+// Keeps a layer whose GLB fails to load from taking the whole canvas down.
+// Retrying is done by the owner: clear the cached load and remount with a new key.
+export class LayerErrorBoundary extends React.Component<{ onError: (error: unknown) => void; children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
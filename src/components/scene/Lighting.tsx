@@ -0,0 +1,54 @@
+// components/scene/Lighting.tsx
+import React, { useMemo, useRef } from "react";
+import * as THREE from "three";
+import type { LightingPreset } from "@/components/RenderPanel";
+
+type Vec3 = [number, number, number];
+type DirectionalSetup = { position: Vec3; intensity: number };
+
+// studio is the lighting the explorer always had: soft ambient and one key
+// from the upper front right. Clinical is bright and flat for reading
+// shapes; rim-lit throws the key behind the model to trace its silhouette.
+const PRESETS: Record<LightingPreset, { ambient: number; key: DirectionalSetup; fill: DirectionalSetup; rim: DirectionalSetup }> = {
+  studio: {
+    ambient: 0.95,
+    key: { position: [10, 10, 10], intensity: 1.0 },
+    fill: { position: [-10, 4, 6], intensity: 0 },
+    rim: { position: [0, 6, -10], intensity: 0 },
+  },
+  clinical: {
+    ambient: 1.4,
+    key: { position: [0, 10, 10], intensity: 0.8 },
+    fill: { position: [-10, 4, 6], intensity: 0.5 },
+    rim: { position: [0, 6, -10], intensity: 0.3 },
+  },
+  rim: {
+    ambient: 0.25,
+    key: { position: [-6, 8, -10], intensity: 1.6 },
+    fill: { position: [10, 2, 6], intensity: 0.25 },
+    rim: { position: [6, 4, -10], intensity: 1.6 },
+  },
+};
+
+// refs to the scene lights, which selective bloom needs to light its layer
+export function useLightRig() {
+  const ambient = useRef<THREE.AmbientLight>(null);
+  const key = useRef<THREE.DirectionalLight>(null);
+  const fill = useRef<THREE.DirectionalLight>(null);
+  const rim = useRef<THREE.DirectionalLight>(null);
+  return useMemo(() => ({ ambient, key, fill, rim }), []);
+}
+
+export type LightRig = ReturnType<typeof useLightRig>;
+
+export default function Lighting({ preset, rig }: { preset: LightingPreset; rig?: LightRig }) {
+  const { ambient, key, fill, rim } = PRESETS[preset];
+  return (
+    <>
+      <ambientLight ref={rig?.ambient} intensity={ambient} />
+      <directionalLight ref={rig?.key} position={key.position} intensity={key.intensity} />
+      <directionalLight ref={rig?.fill} position={fill.position} intensity={fill.intensity} />
+      <directionalLight ref={rig?.rim} position={rim.position} intensity={rim.intensity} />
+    </>
+  );
+}
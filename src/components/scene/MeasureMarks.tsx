@@ -0,0 +1,148 @@
+// components/scene/MeasureMarks.tsx
+import React, { useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import type { MeasureMode, MeasurePoint } from "@/lib/measurements";
+import { MEASURE_COLOR } from "@/lib/sceneConfig";
+import { isClipped } from "./clipping";
+import type { BBox } from "./types";
+import { isShown } from "./utils";
+
+// a measurement whose points resolved to loaded nodes
+export type ResolvedMeasurement = {
+  id: string;
+  mode: MeasureMode;
+  points: (MeasurePoint & { node: THREE.Object3D })[];
+  // already formatted: <Html> renders in its own root
+  label: string | null;
+};
+
+// surface samples per path segment
+const PATH_STEPS = 12;
+
+const _a = new THREE.Vector3();
+const _b = new THREE.Vector3();
+const _c = new THREE.Vector3();
+
+function worldPoint(point: ResolvedMeasurement["points"][number], target: THREE.Vector3) {
+  return point.node.localToWorld(target.fromArray(point.offset));
+}
+
+function worldNormal(point: ResolvedMeasurement["points"][number]) {
+  return point.normal ? new THREE.Vector3().fromArray(point.normal).transformDirection(point.node.matrixWorld) : null;
+}
+
+// Length of a segment following the surface: points along the chord are cast
+// back onto the model along the blended end normals. Without normals the
+// segment is taken straight.
+function surfaceLength(from: ResolvedMeasurement["points"][number], to: ResolvedMeasurement["points"][number], surfaces: THREE.Object3D[], bbox: BBox) {
+  const a = worldPoint(from, new THREE.Vector3());
+  const b = worldPoint(to, new THREE.Vector3());
+  const na = worldNormal(from);
+  const nb = worldNormal(to);
+  if (!na || !nb) return a.distanceTo(b);
+
+  const reach = a.distanceTo(b) * 0.5 + bbox.height * 0.02;
+  const raycaster = new THREE.Raycaster();
+  const normal = new THREE.Vector3();
+  const previous = a.clone();
+  let length = 0;
+  for (let i = 1; i <= PATH_STEPS; i++) {
+    const s = i / PATH_STEPS;
+    const sample = new THREE.Vector3().lerpVectors(a, b, s);
+    normal.lerpVectors(na, nb, s);
+    if (i < PATH_STEPS && normal.lengthSq() > 1e-6) {
+      normal.normalize();
+      raycaster.set(sample.clone().addScaledVector(normal, reach), normal.clone().negate());
+      raycaster.far = reach * 2;
+      const hit = surfaces
+        .flatMap((surface) => raycaster.intersectObject(surface, true).filter((h) => isShown(h.object, surface) && !isClipped(h.point)))
+        .sort((x, y) => x.distance - y.distance)[0];
+      if (hit) sample.copy(hit.point);
+    }
+    length += previous.distanceTo(sample);
+    previous.copy(sample);
+  }
+  return length;
+}
+
+// Centimetres for distances and paths, degrees for angles, calibrated so
+// that bbox.height is `bodyHeight` cm. Paths are cast onto `surfaces` (the
+// visible layer scenes). Null until enough points are placed.
+export function measureValue(measurement: Pick<ResolvedMeasurement, "mode" | "points">, surfaces: THREE.Object3D[], bbox: BBox, bodyHeight: number) {
+  const { mode, points } = measurement;
+  points.forEach((p) => p.node.updateWorldMatrix(true, false));
+  const toCm = bodyHeight / bbox.height;
+
+  if (mode === "angle") {
+    if (points.length < 3) return null;
+    const vertex = worldPoint(points[1], _b);
+    const u = worldPoint(points[0], _a).sub(vertex);
+    const v = worldPoint(points[2], _c).sub(vertex);
+    return THREE.MathUtils.radToDeg(u.angleTo(v));
+  }
+  if (points.length < 2) return null;
+  if (mode === "distance") return worldPoint(points[0], _a).distanceTo(worldPoint(points[1], _b)) * toCm;
+
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += surfaceLength(points[i - 1], points[i], surfaces, bbox);
+  return length * toCm;
+}
+
+function MeasureMark({ measurement, rootRef }: { measurement: ResolvedMeasurement; rootRef: React.RefObject<THREE.Object3D | null> }) {
+  const linesRef = useRef<THREE.LineSegments>(null);
+  const dotsRef = useRef<THREE.Points>(null);
+  const labelRef = useRef<THREE.Group>(null);
+
+  // everything is re-read every frame in the model group's space, so the
+  // marks stay on their nodes through rotation, bob and explosion
+  useFrame(() => {
+    const root = rootRef.current;
+    if (!root || !linesRef.current || !dotsRef.current) return;
+    const local = measurement.points.map((p) => root.worldToLocal(worldPoint(p, new THREE.Vector3())));
+    const pairs = local.slice(1).flatMap((p, i) => [local[i], p]);
+    linesRef.current.geometry.setFromPoints(pairs);
+    dotsRef.current.geometry.setFromPoints(local);
+
+    if (labelRef.current && local.length > 0) {
+      // distance: the middle of the line; angle: its vertex; path: the middle point
+      const anchor = measurement.mode === "distance" && local.length === 2 ? _a.lerpVectors(local[0], local[1], 0.5) : local[Math.floor(local.length / 2)];
+      labelRef.current.position.copy(anchor);
+    }
+  });
+
+  return (
+    <>
+      <lineSegments ref={linesRef} raycast={() => {}} userData={{ helper: true }} renderOrder={10}>
+        <bufferGeometry />
+        <lineBasicMaterial color={MEASURE_COLOR} depthTest={false} transparent />
+      </lineSegments>
+      <points ref={dotsRef} raycast={() => {}} userData={{ helper: true }} renderOrder={10}>
+        <bufferGeometry />
+        <pointsMaterial color={MEASURE_COLOR} size={8} sizeAttenuation={false} depthTest={false} transparent />
+      </points>
+      {measurement.label && (
+        <group ref={labelRef}>
+          <Html center zIndexRange={[15, 0]}>
+            <div className="px-2 py-0.5 text-xs font-semibold text-black rounded-md whitespace-nowrap pointer-events-none" style={{ background: MEASURE_COLOR }}>
+              {measurement.label}
+            </div>
+          </Html>
+        </group>
+      )}
+    </>
+  );
+}
+
+// Lines, points and value labels of the measurements. Rendered inside the
+// model group; the points themselves stay in their nodes' local space.
+export default function MeasureMarks({ measurements, rootRef }: { measurements: ResolvedMeasurement[]; rootRef: React.RefObject<THREE.Object3D | null> }) {
+  return (
+    <>
+      {measurements.map((measurement) => (
+        <MeasureMark key={measurement.id} measurement={measurement} rootRef={rootRef} />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+// components/scene/ModelInstance.tsx
+import React, { useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { useSceneTuning } from "@/components/sceneTuning";
+import { getScrollProgress } from "@/components/scrollProgress";
+import type { ViewControl } from "@/components/useGestures";
+import useReducedMotion from "@/components/useReducedMotion";
+import { ROTATION_FIX } from "@/lib/sceneConfig";
+import type { TourPose } from "@/lib/tours";
+import type { BBox } from "./types";
+import { facingYaw, nearestAngle } from "./utils";
+
+// The model group: every layer is a child so they all share this transform.
+// With reduced motion the scroll tilt, bob and pointer follow are off and
+// rotations apply at once.
+export default function ModelInstance({
+  groupRef,
+  bbox,
+  control,
+  focusObject,
+  restoreYaw = null,
+  onApplyRotation,
+  tourPose,
+  progress = null,
+  children,
+}: {
+  groupRef: React.RefObject<THREE.Group | null>;
+  bbox: BBox | null;
+  // gesture / keyboard input: yaw, hover follow and view resets
+  control: React.RefObject<ViewControl>;
+  focusObject: THREE.Object3D | null;
+  // user yaw to start from (e.g. from a shared link), applied on the first frame
+  restoreYaw?: number | null;
+  // applied group rotation.y, and the user-controlled part of it (drag + focus)
+  onApplyRotation?: (applied: number, user: number) => void;
+  // a playing guided tour sets the yaw; read every frame
+  tourPose?: React.RefObject<TourPose | null>;
+  // scroll progress to pose for instead of the page's, as in CameraRig
+  progress?: number | null;
+  children?: React.ReactNode;
+}) {
+  const reducedMotion = useReducedMotion();
+  const tuning = useSceneTuning();
+
+  const rotYRef = useRef(0);
+  const rotXRef = useRef(0);
+  const posYRef = useRef(tuning.modelYOffset);
+  // extra yaw that turns a focused structure towards the camera; kept after
+  // the focus is released so the model doesn't swing back
+  const focusYawRef = useRef(0);
+  const focusTarget = useRef<{ object: THREE.Object3D; yaw: number } | null>(null);
+  const restored = useRef(false);
+  // whole turns the model had made when the tour took over, so tour yaws are
+  // taken from there instead of spinning back to zero
+  const tourTurnsRef = useRef<number | null>(null);
+  const resetsRef = useRef(0);
+
+  useFrame(() => {
+    if (!groupRef.current) return;
+    const { yaw, pointerX, resets } = control.current;
+    const t = reducedMotion ? 0.5 : (progress ?? getScrollProgress());
+
+    const targetBaseRotY = (1 - t * tuning.rotationIntensity) * Math.PI * 0.02;
+    const targetBaseRotX = (t - 0.5) * 0.06;
+    const targetY = tuning.modelYOffset + (0.5 - t) * tuning.verticalBob;
+
+    const pointerHoverY = reducedMotion ? 0 : pointerX * tuning.hoverPointerRotMax;
+
+    const freeY = targetBaseRotY + pointerHoverY + yaw;
+    if (!restored.current) {
+      restored.current = true;
+      if (restoreYaw !== null) {
+        focusYawRef.current = restoreYaw - yaw;
+        rotYRef.current = freeY + focusYawRef.current;
+      }
+    }
+    // a view reset turns the model back to the front
+    if (resets !== resetsRef.current) {
+      resetsRef.current = resets;
+      focusYawRef.current = 0;
+    }
+    const pose = tourPose?.current;
+    if (pose) {
+      tourTurnsRef.current ??= nearestAngle(0, rotYRef.current);
+      // like a focus, the tour's yaw is kept once the tour ends
+      focusYawRef.current = tourTurnsRef.current + THREE.MathUtils.degToRad(pose.rotation) - freeY;
+    } else {
+      tourTurnsRef.current = null;
+    }
+    if (focusObject && bbox && !pose) {
+      if (focusTarget.current?.object !== focusObject) {
+        focusTarget.current = { object: focusObject, yaw: facingYaw(focusObject, groupRef.current, bbox) - ROTATION_FIX[1] };
+      }
+      focusYawRef.current = nearestAngle(focusTarget.current.yaw, rotYRef.current) - freeY;
+    } else {
+      focusTarget.current = null;
+    }
+    const targetCombinedY = freeY + focusYawRef.current;
+
+    const ease = (alpha: number) => (reducedMotion ? 1 : alpha);
+    rotYRef.current += (targetCombinedY - rotYRef.current) * ease(0.12);
+    rotXRef.current += (targetBaseRotX - rotXRef.current) * ease(0.06);
+    posYRef.current += (targetY - posYRef.current) * ease(0.08);
+
+    groupRef.current.rotation.y = ROTATION_FIX[1] + rotYRef.current;
+    groupRef.current.rotation.x = ROTATION_FIX[0] + rotXRef.current;
+    groupRef.current.position.y = posYRef.current;
+
+    if (onApplyRotation) {
+      onApplyRotation(groupRef.current.rotation.y, yaw + focusYawRef.current);
+    }
+  });
+
+  return (
+    <group ref={groupRef} position={[0, tuning.modelYOffset, 0]} rotation={ROTATION_FIX} scale={tuning.modelScale}>
+      {children}
+    </group>
+  );
+}
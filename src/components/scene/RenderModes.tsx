@@ -0,0 +1,88 @@
+// components/scene/RenderModes.tsx
+import { useEffect } from "react";
+import * as THREE from "three";
+import type { RenderMode } from "@/components/RenderPanel";
+import { REGIONS } from "@/lib/regions";
+import { GROUP_PALETTE, UNGROUPED_COLOR, XRAY_OPACITY } from "@/lib/sceneConfig";
+import { findRegionByMesh, findStructureByMesh, STRUCTURES } from "@/lib/structures";
+import { meshesOf } from "./utils";
+
+// muscle groups first, then the regions of meshes no structure claims; each
+// takes the next palette color
+const GROUP_KEYS = [...new Set(STRUCTURES.map((s) => s.group.en)), ...REGIONS.map((r) => r.id)];
+
+function groupColor(mesh: THREE.Mesh, meshRegions: ReadonlyMap<string, string | null>) {
+  // primitives are often unnamed children of the named node
+  const name = mesh.name || mesh.parent?.name || "";
+  const key = findStructureByMesh(name)?.group.en ?? meshRegions.get(name) ?? findRegionByMesh(name)?.id;
+  const index = key ? GROUP_KEYS.indexOf(key) : -1;
+  return index < 0 ? UNGROUPED_COLOR : GROUP_PALETTE[index % GROUP_PALETTE.length];
+}
+
+// Swaps the materials of the visible layers for restyled clones while a
+// render mode other than "standard" is on, and puts the GLB's own materials
+// back, untouched, when it is turned off or anything it depends on changes.
+// SelectionHighlights are keyed on the same inputs so they tint the clones
+// and unwind before these are restored.
+export default function RenderModes({
+  layers,
+  mode,
+  meshRegions,
+}: {
+  // the visible, loaded layers, outermost first
+  layers: { scene: THREE.Object3D; opacity: number }[];
+  mode: RenderMode;
+  meshRegions: ReadonlyMap<string, string | null>;
+}) {
+  useEffect(() => {
+    if (mode === "standard") return;
+    const originals = new Map<THREE.Mesh, THREE.Material | THREE.Material[]>();
+    // meshes sharing a material share its clone, unless they're colored apart
+    const clones = new Map<string, THREE.Material>();
+
+    layers.forEach(({ scene, opacity }, index) => {
+      // x-ray: everything but the innermost visible layer turns into glass
+      const glass = mode === "xray" && index < layers.length - 1;
+      for (const mesh of meshesOf(scene)) {
+        const color = mode === "group" ? groupColor(mesh, meshRegions) : null;
+        const restyle = (material: THREE.Material) => {
+          const key = `${material.uuid}|${color ?? ""}`;
+          let clone = clones.get(key);
+          if (clone) return clone;
+          clone = material.clone();
+          // clone() copies the section planes; keep sharing the live array instead
+          clone.clippingPlanes = material.clippingPlanes;
+          if (mode === "wireframe" && "wireframe" in clone) clone.wireframe = true;
+          if (glass) {
+            clone.transparent = true;
+            clone.opacity = Math.min(opacity, XRAY_OPACITY);
+            clone.depthWrite = false;
+          }
+          if (
+            color &&
+            (clone instanceof THREE.MeshStandardMaterial ||
+              clone instanceof THREE.MeshPhongMaterial ||
+              clone instanceof THREE.MeshLambertMaterial ||
+              clone instanceof THREE.MeshBasicMaterial)
+          ) {
+            clone.color.set(color);
+            clone.map = null;
+          }
+          clones.set(key, clone);
+          return clone;
+        };
+        originals.set(mesh, mesh.material);
+        mesh.material = Array.isArray(mesh.material) ? mesh.material.map(restyle) : restyle(mesh.material);
+      }
+    });
+
+    return () => {
+      originals.forEach((material, mesh) => {
+        mesh.material = material;
+      });
+      clones.forEach((clone) => clone.dispose());
+    };
+  }, [layers, mode, meshRegions]);
+
+  return null;
+}
@@ -0,0 +1,168 @@
+// components/scene/SceneExporter.tsx
+import React, { useImperativeHandle } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { FRAMING_ASPECT } from "@/lib/sceneConfig";
+import type { ResolvedPin } from "./AnnotationPins";
+import type { SectionTarget } from "./CameraRig";
+import { isClipped } from "./clipping";
+import { isShown } from "./utils";
+
+export type ExportOptions = {
+  width: number;
+  height: number;
+  // CSS color, or null for a transparent background
+  background: string | null;
+  // draw the annotation pins with leader lines to their titles
+  labels: boolean;
+};
+
+// Renders the scene into plain 2D canvases, for the export panel.
+export type SceneCapture = {
+  // the view as it is on screen
+  capture: (options: ExportOptions) => HTMLCanvasElement;
+  // every region's framing, in REGIONS order
+  captureRegions: (options: ExportOptions) => HTMLCanvasElement[];
+};
+
+type Label = { x: number; y: number; title: string };
+
+const _pos = new THREE.Vector3();
+const _normal = new THREE.Vector3();
+const _toCamera = new THREE.Vector3();
+
+// pins visible from `camera`, in pixels of a width x height image
+function projectPins(pins: ResolvedPin[], root: THREE.Object3D, camera: THREE.Camera, width: number, height: number) {
+  const raycaster = new THREE.Raycaster();
+  const labels: Label[] = [];
+  for (const pin of pins) {
+    if (pin.draft || !isShown(pin.node, root)) continue;
+    _pos.fromArray(pin.offset);
+    pin.node.localToWorld(_pos);
+    if (isClipped(_pos)) continue;
+
+    _toCamera.copy(camera.position).sub(_pos);
+    const distance = _toCamera.length();
+    if (pin.normal && _normal.fromArray(pin.normal).transformDirection(pin.node.matrixWorld).dot(_toCamera) <= 0) continue;
+    raycaster.set(camera.position, _toCamera.negate().normalize());
+    raycaster.far = distance * 0.995;
+    if (raycaster.intersectObject(root, true).some((h) => isShown(h.object, root) && !isClipped(h.point))) continue;
+
+    const ndc = _pos.project(camera);
+    if (Math.abs(ndc.x) > 1 || Math.abs(ndc.y) > 1 || ndc.z > 1) continue;
+    labels.push({ x: ((ndc.x + 1) / 2) * width, y: ((1 - ndc.y) / 2) * height, title: pin.title });
+  }
+  return labels;
+}
+
+// Titles go in a column on the side of the image their pin is on, stacked
+// top to bottom so they never overlap, each joined to its pin by a line.
+function drawLabels(ctx: CanvasRenderingContext2D, labels: Label[], width: number, height: number) {
+  const size = Math.round(height / 50);
+  const margin = size * 2;
+  const gap = size * 0.6;
+  const lineHeight = size + gap * 2;
+  ctx.font = `600 ${size}px sans-serif`;
+  ctx.textBaseline = "middle";
+  ctx.lineWidth = Math.max(1, size / 10);
+
+  for (const side of ["left", "right"] as const) {
+    const column = labels.filter((l) => (l.x < width / 2) === (side === "left")).sort((a, b) => a.y - b.y);
+    let nextY = margin;
+    for (const label of column) {
+      const y = Math.max(label.y, nextY + lineHeight / 2);
+      nextY = y + lineHeight / 2 + gap;
+      const textWidth = ctx.measureText(label.title).width;
+      const boxX = side === "left" ? margin : width - margin - textWidth - gap * 2;
+      const anchorX = side === "left" ? boxX + textWidth + gap * 2 : boxX;
+
+      ctx.strokeStyle = "rgba(255,255,255,0.9)";
+      ctx.beginPath();
+      ctx.moveTo(anchorX, y);
+      ctx.lineTo(label.x, label.y);
+      ctx.stroke();
+
+      ctx.fillStyle = "#f59e0b";
+      ctx.beginPath();
+      ctx.arc(label.x, label.y, size / 3, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.fillStyle = "rgba(0,0,0,0.7)";
+      ctx.fillRect(boxX, y - lineHeight / 2, textWidth + gap * 2, lineHeight);
+      ctx.fillStyle = "#ffffff";
+      ctx.fillText(label.title, boxX + gap, y);
+    }
+  }
+}
+
+// Exposes a SceneCapture through `ref`. Each export renders with its own
+// offscreen WebGL renderer, set up like the on-screen one, so the visible
+// canvas never changes size or flickers; the renderer is dropped afterwards.
+export default function SceneExporter({
+  ref,
+  rootRef,
+  pins,
+  sectionTargets,
+}: {
+  ref: React.Ref<SceneCapture>;
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  pins: ResolvedPin[];
+  sectionTargets: SectionTarget[] | null;
+}) {
+  const { gl, scene, camera } = useThree();
+
+  useImperativeHandle(ref, () => {
+    const withRenderer = <T,>({ width, height, background }: ExportOptions, render: (renderer: THREE.WebGLRenderer) => T) => {
+      const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, stencil: true, preserveDrawingBuffer: true });
+      renderer.toneMapping = gl.toneMapping;
+      renderer.toneMappingExposure = gl.toneMappingExposure;
+      renderer.outputColorSpace = gl.outputColorSpace;
+      renderer.localClippingEnabled = gl.localClippingEnabled;
+      renderer.setPixelRatio(1);
+      renderer.setSize(width, height, false);
+      if (background) renderer.setClearColor(background, 1);
+      else renderer.setClearColor(0x000000, 0);
+      try {
+        return render(renderer);
+      } finally {
+        renderer.dispose();
+        renderer.forceContextLoss();
+      }
+    };
+
+    const shoot = (renderer: THREE.WebGLRenderer, view: THREE.PerspectiveCamera, { width, height, labels }: ExportOptions) => {
+      view.aspect = width / height;
+      view.updateProjectionMatrix();
+      view.updateMatrixWorld();
+      renderer.render(scene, view);
+
+      const output = document.createElement("canvas");
+      output.width = width;
+      output.height = height;
+      const ctx = output.getContext("2d")!;
+      ctx.drawImage(renderer.domElement, 0, 0);
+      const root = rootRef.current;
+      if (labels && root) drawLabels(ctx, projectPins(pins, root, view, width, height), width, height);
+      return output;
+    };
+
+    const viewCamera = () => (camera instanceof THREE.PerspectiveCamera ? camera.clone() : new THREE.PerspectiveCamera());
+
+    return {
+      capture: (options) => withRenderer(options, (renderer) => shoot(renderer, viewCamera(), options)),
+      captureRegions: (options) =>
+        withRenderer(options, (renderer) =>
+          (sectionTargets ?? []).map((target) => {
+            const view = viewCamera();
+            const backOff = Math.max(1, FRAMING_ASPECT / (options.width / options.height));
+            view.fov = target.fov;
+            view.position.copy(target.position).sub(target.lookAt).multiplyScalar(backOff).add(target.lookAt);
+            view.lookAt(target.lookAt);
+            return shoot(renderer, view, options);
+          })
+        ),
+    };
+  }, [gl, scene, camera, rootRef, pins, sectionTargets]);
+
+  return null;
+}
@@ -0,0 +1,342 @@
+// components/scene/SceneWithAutoTargets.tsx
+import React, { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Preload } from "@react-three/drei";
+import * as THREE from "three";
+import type { DebugSettings } from "@/components/DebugPanel";
+import type { PlaybackClock } from "@/components/playbackClock";
+import type { RenderSettings } from "@/components/RenderPanel";
+import { useI18n } from "@/components/I18nProvider";
+import { useModelManifest } from "@/components/modelManifest";
+import { useSceneTuning } from "@/components/sceneTuning";
+import type { ViewControl } from "@/components/useGestures";
+import { ANNOTATIONS, type AnnotationDraft } from "@/lib/annotations";
+import { localize } from "@/lib/i18n";
+import { LAYERS, type LayerSettings, type LayerStatus } from "@/lib/layers";
+import { formatMeasurement, type Measurement, type MeasurePoint } from "@/lib/measurements";
+import { findManifestLayer, type ModelMesh } from "@/lib/modelManifest";
+import type { SectionState } from "@/lib/sections";
+import { findRegionByMesh, findStructure, findStructureByMesh } from "@/lib/structures";
+import type { TourPose } from "@/lib/tours";
+import { QUIZ_HIGHLIGHT_COLOR, TOUR_HIGHLIGHT_COLOR } from "@/lib/sceneConfig";
+import AdaptiveRendering from "./AdaptiveRendering";
+import AnimationClips, { type AnimationClipInfo } from "./AnimationClips";
+import AnnotationPins, { draftFromHit, type ResolvedPin } from "./AnnotationPins";
+import CameraRig from "./CameraRig";
+import DebugGizmos, { RenderStatsProbe } from "./DebugGizmos";
+import ExplodedView from "./ExplodedView";
+import HighlightEffects from "./HighlightEffects";
+import LayerModel, { LayerErrorBoundary } from "./LayerModel";
+import Lighting, { useLightRig } from "./Lighting";
+import { describeLoadFailure, type LoadFailure } from "./loaders";
+import MeasureMarks, { measureValue, type ResolvedMeasurement } from "./MeasureMarks";
+import ModelInstance from "./ModelInstance";
+import RenderModes from "./RenderModes";
+import { HoverOutline, KeyboardFocusOutline, MeshPicker, SelectionHighlight } from "./picking";
+import SceneExporter, { type SceneCapture } from "./SceneExporter";
+import ScrollOverlay from "./ScrollOverlay";
+import SectionPlanes from "./SectionPlanes";
+import type { GLTF } from "./types";
+import useModelBBox from "./useModelBBox";
+import useRegionTargets from "./useRegionTargets";
+import { meshesOf, objectId } from "./utils";
+
+export default function SceneWithAutoTargets({
+  control,
+  restoreYaw,
+  onApplyRotation,
+  selectedName,
+  onSelect,
+  focusName,
+  quizName = null,
+  keyboardName = null,
+  onNodesReady,
+  layers,
+  layerUrls,
+  onLayerStatus,
+  layerAttempts,
+  sections = {},
+  explode,
+  tourPose,
+  tourHighlights = [],
+  showAnnotations = true,
+  pinPortal,
+  annotating = false,
+  annotationDraft = null,
+  onAnnotate,
+  debug = null,
+  exporter,
+  measure = null,
+  onMeasurePoint,
+  onMeasured,
+  animation = null,
+  render,
+  playing = false,
+  onSlow,
+}: {
+  // user view input from the gesture controller and the keyboard
+  control: React.RefObject<ViewControl>;
+  restoreYaw?: number | null;
+  onApplyRotation?: (applied: number, user: number) => void;
+  selectedName: string | null;
+  onSelect: (name: string | null) => void;
+  focusName: string | null;
+  // mesh a quiz question is about, highlighted in its own color
+  quizName?: string | null;
+  // structure reached with ]/[ on the focused model
+  keyboardName?: string | null;
+  // the searchable meshes of the visible layers, one entry per name
+  onNodesReady?: (meshes: ModelMesh[]) => void;
+  layers: LayerSettings;
+  // file to load per layer id (the low-detail copies); LayerDef.url otherwise
+  layerUrls?: Record<string, string>;
+  onLayerStatus?: (id: string, status: LayerStatus, failure?: LoadFailure) => void;
+  // bumped per layer on retry; remounts its error boundary
+  layerAttempts?: Record<string, number>;
+  sections?: SectionState;
+  // exploded view; regionId limits it to one region
+  explode?: { amount: number; grouped: boolean; regionId: string | null };
+  // guided tour: camera and yaw override, and the structures it points out
+  tourPose?: React.RefObject<TourPose | null>;
+  tourHighlights?: string[];
+  showAnnotations?: boolean;
+  pinPortal: React.RefObject<HTMLElement | null>;
+  // authoring mode: model clicks place a draft pin instead of selecting
+  annotating?: boolean;
+  annotationDraft?: AnnotationDraft | null;
+  onAnnotate?: (draft: AnnotationDraft) => void;
+  // ?debug=1: gizmos, render stats and the scroll readout
+  debug?: DebugSettings | null;
+  // filled with the PNG / handout renderer for the export panel
+  exporter?: React.Ref<SceneCapture>;
+  // measurement tool: while `active`, model clicks add a point instead of
+  // selecting; the measurements include the one being placed
+  measure?: { active: boolean; measurements: Measurement[]; bodyHeight: number } | null;
+  onMeasurePoint?: (point: MeasurePoint) => void;
+  // value of every complete measurement by id (cm or degrees)
+  onMeasured?: (values: Record<string, number>) => void;
+  // clip playback: the clip to pose (null for none) at the clock's time, and
+  // where the clips of the visible layers are reported
+  animation?: { clip: string | null; clock: PlaybackClock; colorCode: boolean; onClips: (clips: AnimationClipInfo[]) => void } | null;
+  // render mode, post-processed highlight and lighting preset
+  render?: RenderSettings;
+  // a tour or clip is playing, so frames are drawn while nothing else moves
+  playing?: boolean;
+  // even the lowest resolution renders too slowly
+  onSlow?: () => void;
+}) {
+  const { locale } = useI18n();
+  const { modelScale } = useSceneTuning();
+  const manifest = useModelManifest();
+  const modelRef = useRef<THREE.Group | null>(null);
+  const [loaded, setLoaded] = useState<Record<string, GLTF>>({});
+  const [hoveredName, setHoveredName] = useState<string | null>(null);
+  const lightRig = useLightRig();
+
+  const onLayerLoaded = useCallback(
+    (id: string, gltf: GLTF) => {
+      setLoaded((l) => (l[id] === gltf ? l : { ...l, [id]: gltf }));
+      onLayerStatus?.(id, "ready");
+    },
+    [onLayerStatus]
+  );
+
+  // layers load lazily: a GLB is only requested once its layer is first shown
+  const mountedLayers = LAYERS.filter((l) => layers[l.id]?.visible || loaded[l.id]);
+  const visibleLayers = useMemo(() => LAYERS.filter((l) => layers[l.id]?.visible && loaded[l.id]), [layers, loaded]);
+  const visibleGltfs = useMemo(() => visibleLayers.map((l) => loaded[l.id]), [visibleLayers, loaded]);
+  const visibleScenes = useMemo(() => visibleGltfs.map((g) => g.scene), [visibleGltfs]);
+  const animatedLayers = useMemo(() => visibleLayers.map((l) => ({ id: l.id, gltf: loaded[l.id] })), [visibleLayers, loaded]);
+  const bboxSources = useMemo(
+    () => visibleLayers.map((l) => ({ scene: loaded[l.id].scene, box: findManifestLayer(manifest, l.id)?.box })),
+    [visibleLayers, loaded, manifest]
+  );
+  const bbox = useModelBBox(bboxSources, modelScale);
+  const styledLayers = useMemo(
+    () => [...visibleLayers].sort((a, b) => a.peel - b.peel).map((l) => ({ scene: loaded[l.id].scene, opacity: layers[l.id].opacity })),
+    [visibleLayers, loaded, layers]
+  );
+  const loadedScenes = useMemo(() => Object.values(loaded).map((g) => g.scene), [loaded]);
+
+  // meshes of each loaded layer as the manifest lists them; a layer it
+  // doesn't know contributes every named node with geometry under it
+  const layerMeshes = useMemo(() => {
+    const meshes: Record<string, ModelMesh[]> = {};
+    for (const [id, gltf] of Object.entries(loaded)) {
+      const listed = findManifestLayer(manifest, id);
+      meshes[id] = listed
+        ? listed.meshes.map(({ name, region }) => ({ name, region }))
+        : Object.entries(gltf.nodes ?? {})
+            .filter(([name, node]) => name && meshesOf(node).length > 0)
+            .map(([name]) => ({ name, region: findRegionByMesh(name)?.id ?? null }));
+    }
+    return meshes;
+  }, [loaded, manifest]);
+  const meshRegions = useMemo(() => new Map(Object.values(layerMeshes).flatMap((list) => list.map((m) => [m.name, m.region] as const))), [layerMeshes]);
+
+  useEffect(() => {
+    if (!onNodesReady) return;
+    const byName = new Map(visibleLayers.flatMap((l) => layerMeshes[l.id] ?? []).map((m) => [m.name, m]));
+    onNodesReady(Array.from(byName.values()));
+  }, [visibleLayers, layerMeshes, onNodesReady]);
+
+  const findNode = useCallback(
+    (name: string | null) => {
+      if (!name) return null;
+      for (const gltf of visibleGltfs) {
+        const node = gltf.scene.getObjectByName(name);
+        if (node) return node;
+      }
+      return null;
+    },
+    [visibleGltfs]
+  );
+
+  const focusObject = useMemo(() => findNode(focusName), [findNode, focusName]);
+  const selectedObject = useMemo(() => findNode(selectedName), [findNode, selectedName]);
+  const quizObject = useMemo(() => findNode(quizName), [findNode, quizName]);
+  const keyboardObject = useMemo(() => findNode(keyboardName), [findNode, keyboardName]);
+  const hoveredObject = useMemo(
+    () => (hoveredName !== selectedName && hoveredName !== quizName ? findNode(hoveredName) : null),
+    [findNode, hoveredName, selectedName, quizName]
+  );
+
+  // tour highlights name structures (every mesh of it) or exact nodes
+  const tourObjects = useMemo(() => {
+    const names = tourHighlights.flatMap((key) => {
+      if (!findStructure(key)) return [key];
+      return visibleGltfs.flatMap((gltf) => Object.keys(gltf.nodes ?? {})).filter((n) => findStructureByMesh(n)?.id === key);
+    });
+    return Array.from(new Set(names))
+      .map(findNode)
+      .filter((node): node is THREE.Object3D => !!node);
+  }, [tourHighlights, visibleGltfs, findNode]);
+
+  const pins = useMemo(() => {
+    if (!showAnnotations) return [];
+    const resolved: ResolvedPin[] = [];
+    for (const a of ANNOTATIONS) {
+      const node = findNode(a.mesh);
+      if (node) resolved.push({ ...a, node, title: localize(a.title, locale), body: localize(a.body, locale) });
+    }
+    const draftNode = findNode(annotationDraft?.mesh ?? null);
+    if (annotationDraft && draftNode) resolved.push({ ...annotationDraft, id: "draft", node: draftNode, title: annotationDraft.mesh, draft: true });
+    return resolved;
+  }, [showAnnotations, findNode, annotationDraft, locale]);
+
+  const measuring = !!measure?.active;
+  const handleSelect = useCallback(
+    (name: string | null, hit: THREE.Intersection | null) => {
+      if (!annotating && !measuring) return onSelect(name);
+      const node = findNode(name);
+      if (!node || !hit) return;
+      // a measure point is the same node-local surface point as a pin draft
+      if (measuring) onMeasurePoint?.(draftFromHit(node, hit));
+      else onAnnotate?.(draftFromHit(node, hit));
+    },
+    [annotating, measuring, onSelect, onAnnotate, onMeasurePoint, findNode]
+  );
+
+  // points on layers that are hidden or not loaded drop out
+  const measurements = useMemo(() => {
+    if (!measure || !bbox) return [];
+    return measure.measurements.map((m) => {
+      const points = m.points.flatMap((p) => {
+        const node = findNode(p.mesh);
+        return node ? [{ ...p, node }] : [];
+      });
+      const complete = points.length === m.points.length;
+      const value = complete ? measureValue({ mode: m.mode, points }, visibleScenes, bbox, measure.bodyHeight) : null;
+      return { id: m.id, mode: m.mode, points, value };
+    });
+  }, [measure, bbox, findNode, visibleScenes]);
+
+  useEffect(() => {
+    if (!onMeasured) return;
+    const values: Record<string, number> = {};
+    for (const m of measurements) if (m.value !== null) values[m.id] = m.value;
+    onMeasured(values);
+  }, [measurements, onMeasured]);
+
+  const measureMarks = useMemo<ResolvedMeasurement[]>(
+    () => measurements.map(({ value, ...m }) => ({ ...m, label: value === null ? null : formatMeasurement(m.mode, value) })),
+    [measurements]
+  );
+
+  const { framing, sectionTargets } = useRegionTargets(bbox);
+  const highlightEffect = render?.effect ?? "none";
+  const renderMode = render?.mode ?? "standard";
+  const renderStyle = useMemo(() => ({ layers: styledLayers, mode: renderMode, meshRegions }), [styledLayers, renderMode, meshRegions]);
+  // selection highlights remount whenever RenderModes restyles, so they never
+  // outlive the materials they tinted
+  const materialsKey = objectId(renderStyle);
+  const highlightedObjects = useMemo(() => [selectedObject, hoveredObject], [selectedObject, hoveredObject]);
+
+  return (
+    <>
+      <Lighting preset={render?.lighting ?? "studio"} rig={lightRig} />
+      <ModelInstance
+        groupRef={modelRef}
+        bbox={bbox}
+        control={control}
+        focusObject={focusObject}
+        restoreYaw={restoreYaw}
+        onApplyRotation={onApplyRotation}
+        tourPose={tourPose}
+      >
+        {mountedLayers.map((layer) => {
+          const url = layerUrls?.[layer.id] ?? layer.url;
+          return (
+            <LayerErrorBoundary
+              key={`${layer.id}:${url}:${layerAttempts?.[layer.id] ?? 0}`}
+              onError={(error) => onLayerStatus?.(layer.id, "error", describeLoadFailure(error, url))}
+            >
+              {/* progress and failures are shown by the DOM loading screen */}
+              <Suspense fallback={null}>
+                <LayerModel layer={layer} state={layers[layer.id]} onLoaded={onLayerLoaded} url={url} />
+              </Suspense>
+            </LayerErrorBoundary>
+          );
+        })}
+        <SectionPlanes rootRef={modelRef} bbox={bbox} sections={sections} scenes={loadedScenes} />
+        <ExplodedView
+          rootRef={modelRef}
+          bbox={bbox}
+          scenes={loadedScenes}
+          amount={explode?.amount ?? 0}
+          grouped={explode?.grouped ?? false}
+          regionId={explode?.regionId}
+          meshRegions={meshRegions}
+        />
+        <MeasureMarks measurements={measureMarks} rootRef={modelRef} />
+      </ModelInstance>
+
+      <MeshPicker rootRef={modelRef} onHover={setHoveredName} onSelect={handleSelect} />
+      {/* before the highlights: they tint whatever materials this puts on */}
+      <RenderModes {...renderStyle} />
+      <SelectionHighlight key={`selected|${materialsKey}`} object={selectedObject} />
+      <SelectionHighlight key={`quiz|${materialsKey}`} object={quizObject} color={QUIZ_HIGHLIGHT_COLOR} />
+      {tourObjects.map((object) => (
+        <SelectionHighlight key={`${object.uuid}|${materialsKey}`} object={object} color={TOUR_HIGHLIGHT_COLOR} />
+      ))}
+      <HoverOutline object={hoveredObject} outline={highlightEffect === "none"} />
+      {highlightEffect !== "none" && <HighlightEffects effect={highlightEffect} objects={highlightedObjects} rig={lightRig} />}
+      <KeyboardFocusOutline object={keyboardObject} />
+      <AnnotationPins pins={pins} rootRef={modelRef} portal={pinPortal} />
+      {animation && (
+        <AnimationClips layers={animatedLayers} clip={animation.clip} clock={animation.clock} colorCode={animation.colorCode} onClips={animation.onClips} />
+      )}
+
+      {exporter && <SceneExporter ref={exporter} rootRef={modelRef} pins={pins} sectionTargets={sectionTargets} />}
+      <CameraRig sectionTargets={sectionTargets} focus={focusObject} framing={framing} tourPose={tourPose} control={control} />
+      {debug && (
+        <>
+          <ScrollOverlay />
+          <RenderStatsProbe />
+          <DebugGizmos rootRef={modelRef} bbox={bbox} sectionTargets={sectionTargets} showBBox={debug.bbox} showTargets={debug.targets} />
+        </>
+      )}
+      <AdaptiveRendering rootRef={modelRef} busy={playing} onSlow={onSlow} />
+      <Preload all />
+    </>
+  );
+}
@@ -0,0 +1,25 @@
+// components/scene/ScrollOverlay.tsx
+import { useRef } from "react";
+import { Html } from "@react-three/drei";
+import { useI18n } from "@/components/I18nProvider";
+import { useScrollEffect } from "@/components/scrollProgress";
+
+export default function ScrollOverlay() {
+  // read here: <Html> content renders in its own root without our context
+  const { m } = useI18n();
+  const valueRef = useRef<HTMLElement>(null);
+
+  // written straight to the DOM: scrolling never re-renders the overlay
+  useScrollEffect((progress) => {
+    if (valueRef.current) valueRef.current.textContent = progress.toFixed(3);
+  });
+
+  return (
+    <Html position={[0, -2.5, 0]} center>
+      <div style={{ position: "fixed", left: 12, top: 12, padding: "8px 10px", background: "rgba(0,0,0,0.65)", color: "white", borderRadius: 8, fontSize: 13, zIndex: 9999 }}>
+        <div>scroll: <strong ref={valueRef}>0.000</strong></div>
+        <div style={{ marginTop: 6, fontSize: 11, opacity: 0.8 }}>{m.scene.rotateHint}</div>
+      </div>
+    </Html>
+  );
+}
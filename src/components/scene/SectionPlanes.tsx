@@ -0,0 +1,171 @@
+// components/scene/SectionPlanes.tsx
+import React, { useEffect, useMemo } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { SECTION_CAP_COLOR } from "@/lib/sceneConfig";
+import { activeSections, type ModelAxis, type SectionPlane, type SectionState } from "@/lib/sections";
+import { modelClippingPlanes } from "./clipping";
+import type { BBox } from "./types";
+import { meshesOf } from "./utils";
+
+// outward normal of the removed side: cuts take away the top, the model's
+// right (+x) and the front (+z) unless flipped
+const AXIS_NORMAL: Record<ModelAxis, THREE.Vector3> = {
+  x: new THREE.Vector3(-1, 0, 0),
+  y: new THREE.Vector3(0, -1, 0),
+  z: new THREE.Vector3(0, 0, -1),
+};
+const PLANE_FACING = new THREE.Vector3(0, 0, 1);
+const noRaycast = () => {};
+
+// Plane in model-group space. bbox is at the model scale, the group's children are not.
+function localPlane(axis: ModelAxis, section: SectionPlane, bbox: BBox, target = new THREE.Plane()) {
+  const coord = (bbox.min[axis] + section.position * bbox.size[axis]) / bbox.scale;
+  target.normal.copy(AXIS_NORMAL[axis]);
+  if (section.flipped) target.normal.negate();
+  target.constant = -target.normal[axis] * coord;
+  return target;
+}
+
+// Writes the cut's inside into the stencil buffer: back faces visible through
+// the cut increment, front faces decrement, so only "inside" pixels end up
+// non-zero. Same technique as three's webgl_clipping_stencil example.
+function stencilMaterials(plane: THREE.Plane) {
+  const base = {
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFunc: THREE.AlwaysStencilFunc,
+    clippingPlanes: [plane],
+  };
+  return [
+    new THREE.MeshBasicMaterial({ ...base, side: THREE.BackSide, stencilFail: THREE.IncrementWrapStencilOp, stencilZFail: THREE.IncrementWrapStencilOp, stencilZPass: THREE.IncrementWrapStencilOp }),
+    new THREE.MeshBasicMaterial({ ...base, side: THREE.FrontSide, stencilFail: THREE.DecrementWrapStencilOp, stencilZFail: THREE.DecrementWrapStencilOp, stencilZPass: THREE.DecrementWrapStencilOp }),
+  ];
+}
+
+function stencilHelper(mesh: THREE.Mesh, material: THREE.Material) {
+  let helper: THREE.Mesh;
+  if ((mesh as THREE.SkinnedMesh).isSkinnedMesh) {
+    const skinned = mesh as THREE.SkinnedMesh;
+    helper = new THREE.SkinnedMesh(skinned.geometry, material);
+    (helper as THREE.SkinnedMesh).bind(skinned.skeleton, skinned.bindMatrix);
+  } else {
+    helper = new THREE.Mesh(mesh.geometry, material);
+  }
+  helper.userData.helper = true;
+  helper.raycast = noRaycast;
+  return helper;
+}
+
+// Cross-section planes with filled caps. Rendered inside the model group, so
+// planes and caps live in model space and turn with ModelInstance; the world
+// planes handed to the materials are re-derived from the group every frame.
+export default function SectionPlanes({
+  rootRef,
+  bbox,
+  sections,
+  scenes,
+}: {
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  bbox: BBox | null;
+  sections: SectionState;
+  // loaded layer scenes; stencil helpers are rebuilt when these change
+  scenes: THREE.Object3D[];
+}) {
+  const active = useMemo(() => activeSections(sections), [sections]);
+  const activeKey = active.map((a) => a.id).join(",");
+  // one world-space plane per active section; the same objects go into the
+  // shared array, the stencil materials and the other sections' caps
+  const planes = useMemo(() => (activeKey ? activeKey.split(",").map(() => new THREE.Plane()) : []), [activeKey]);
+
+  useEffect(() => {
+    modelClippingPlanes.splice(0, modelClippingPlanes.length, ...planes);
+    return () => {
+      modelClippingPlanes.length = 0;
+    };
+  }, [planes]);
+
+  // stencil helpers: two per mesh per plane, drawn before that plane's cap.
+  // Costs extra draw calls only while a section is active.
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || planes.length === 0) return;
+    const meshes = meshesOf(root);
+    const helpers: THREE.Mesh[] = [];
+    const materials = planes.map((plane) => stencilMaterials(plane));
+
+    planes.forEach((_, i) => {
+      for (const mesh of meshes) {
+        for (const material of materials[i]) {
+          const helper = stencilHelper(mesh, material);
+          helper.renderOrder = 1 + i * 2;
+          mesh.add(helper);
+          helpers.push(helper);
+        }
+      }
+    });
+
+    return () => {
+      helpers.forEach((h) => h.removeFromParent());
+      materials.flat().forEach((m) => m.dispose());
+    };
+  }, [rootRef, planes, scenes]);
+
+  useFrame(() => {
+    const root = rootRef.current;
+    if (!root || !bbox) return;
+    root.updateMatrixWorld();
+    active.forEach(({ id, axis }, i) => {
+      localPlane(axis, sections[id]!, bbox, planes[i]).applyMatrix4(root.matrixWorld);
+    });
+  });
+
+  const caps = useMemo(() => {
+    if (!bbox) return [];
+    const center = bbox.center.clone().divideScalar(bbox.scale);
+    const size = (Math.max(bbox.size.x, bbox.size.y, bbox.size.z) / bbox.scale) * 2;
+    return active.map(({ id, axis }, i) => {
+      const plane = localPlane(axis, sections[id]!, bbox);
+      return {
+        id,
+        size,
+        position: plane.projectPoint(center, new THREE.Vector3()),
+        quaternion: new THREE.Quaternion().setFromUnitVectors(PLANE_FACING, plane.normal),
+        // a cap is cut by the other sections, never by its own plane
+        clippingPlanes: planes.filter((_, j) => j !== i),
+        renderOrder: 2 + i * 2,
+      };
+    });
+  }, [active, sections, bbox, planes]);
+
+  return (
+    <>
+      {caps.map((cap) => (
+        <mesh
+          key={cap.id}
+          position={cap.position}
+          quaternion={cap.quaternion}
+          renderOrder={cap.renderOrder}
+          raycast={noRaycast}
+          userData={{ helper: true }}
+        >
+          <planeGeometry args={[cap.size, cap.size]} />
+          {/* only where the stencil says "inside", then resets it for the next plane */}
+          <meshStandardMaterial
+            color={SECTION_CAP_COLOR}
+            side={THREE.DoubleSide}
+            clippingPlanes={cap.clippingPlanes}
+            stencilWrite
+            stencilRef={0}
+            stencilFunc={THREE.NotEqualStencilFunc}
+            stencilFail={THREE.ReplaceStencilOp}
+            stencilZFail={THREE.ReplaceStencilOp}
+            stencilZPass={THREE.ReplaceStencilOp}
+          />
+        </mesh>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,13 @@
+// components/scene/clipping.ts
+import * as THREE from "three";
+
+// World-space clipping planes shared by every model material. Materials get
+// this array once and only its contents change (SectionPlanes keeps them in
+// step with the model each frame); three recompiles a material's program on
+// its own when the number of planes changes.
+export const modelClippingPlanes: THREE.Plane[] = [];
+
+// true when `point` (world space) is cut away by an active section
+export function isClipped(point: THREE.Vector3) {
+  return modelClippingPlanes.some((plane) => plane.distanceToPoint(point) < 0);
+}
@@ -0,0 +1,95 @@
+// components/scene/loaders.ts
+// GLTF loading shared by every layer. Draco, Meshopt and KTX2 decoding all
+// run from local files (public/decoders, see scripts/copy-decoders.mjs; the
+// Meshopt decoder is bundled), and byte progress is tracked per URL for the
+// loading screen.
+import { useSyncExternalStore } from "react";
+import { useGLTF } from "@react-three/drei";
+import type * as THREE from "three";
+import { KTX2Loader, type GLTFLoader } from "three-stdlib";
+import type { GLTF } from "./types";
+
+const DRACO_PATH = "/decoders/draco/";
+const BASIS_PATH = "/decoders/basis/";
+
+export type LoadProgress = { loaded: number; total: number };
+
+// why a model failed, for a message the visitor can act on
+export type LoadFailure = { kind: "missing" | "network" | "parse"; status?: number; url: string };
+
+let ktx2Loader: KTX2Loader | null = null;
+function ktx2() {
+  return (ktx2Loader ??= new KTX2Loader().setTranscoderPath(BASIS_PATH));
+}
+
+// KTX2 needs to know the renderer's texture formats before it transcodes
+// anything; call as soon as the canvas exists (textures are only transcoded
+// once the whole GLB has arrived, well after that).
+export function initDecoders(gl: THREE.WebGLRenderer) {
+  ktx2().detectSupport(gl);
+}
+
+let progress: Record<string, LoadProgress> = {};
+const EMPTY: Record<string, LoadProgress> = {};
+const listeners = new Set<() => void>();
+
+function setProgress(url: string, value: LoadProgress | null) {
+  const next = { ...progress };
+  if (value) next[url] = value;
+  else delete next[url];
+  progress = next;
+  listeners.forEach((l) => l());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// bytes received per model URL; total is 0 when the server sends no length
+export function useLoadProgress() {
+  return useSyncExternalStore(subscribe, () => progress, () => EMPTY);
+}
+
+// r3f keeps one loader instance per loader class, so wrap its load() once to
+// see byte progress no matter whether a preload or a component started it
+const tracked = new WeakSet<GLTFLoader>();
+
+function extendLoader(loader: GLTFLoader) {
+  loader.setKTX2Loader(ktx2());
+  if (tracked.has(loader)) return;
+  tracked.add(loader);
+  const load = loader.load.bind(loader);
+  loader.load = (url, onLoad, onProgress, onError) =>
+    load(
+      url,
+      onLoad,
+      (event) => {
+        setProgress(url, { loaded: event.loaded, total: event.lengthComputable ? event.total : 0 });
+        onProgress?.(event);
+      },
+      onError
+    );
+}
+
+export function useModelGLTF(url: string) {
+  return useGLTF(url, DRACO_PATH, true, extendLoader) as unknown as GLTF;
+}
+
+export function preloadModel(url: string) {
+  useGLTF.preload(url, DRACO_PATH, true, extendLoader);
+}
+
+// drop a failed load from the cache so the next attempt fetches again
+export function clearModel(url: string) {
+  useGLTF.clear(url);
+  setProgress(url, null);
+}
+
+export function describeLoadFailure(error: unknown, url: string): LoadFailure {
+  const status = (error as { response?: Response })?.response?.status;
+  if (status === 404 || status === 410) return { kind: "missing", status, url };
+  // fetch() rejects with a TypeError when the request never got a response
+  if (status || (error instanceof TypeError && /fetch|network/i.test(error.message))) return { kind: "network", status, url };
+  return { kind: "parse", url };
+}
@@ -0,0 +1,163 @@
+// components/scene/picking.tsx
+import React, { useEffect, useMemo, useRef } from "react";
+import { createPortal, useThree } from "@react-three/fiber";
+import { Outlines, useCursor } from "@react-three/drei";
+import * as THREE from "three";
+import { CLICK_MOVE_TOLERANCE, HIGHLIGHT_COLOR, HOVER_OUTLINE_COLOR, KEYBOARD_FOCUS_COLOR } from "@/lib/sceneConfig";
+import { isUiTarget } from "@/lib/ui";
+import { isClipped } from "./clipping";
+import { isShown, meshesOf, namedAncestor } from "./utils";
+
+// Raycast picking driven by window pointer events (the DOM overlay covers the
+// canvas, so r3f's own pointer events never reach it). A press only selects
+// when the pointer travelled less than CLICK_MOVE_TOLERANCE, so click-drag
+// rotation in Page never selects a muscle. Presses outside this canvas (the
+// other half of the comparison view) are left alone. `onSelect` also gets the
+// raw hit so tools can work with the surface point.
+export function MeshPicker({
+  rootRef,
+  onHover,
+  onSelect,
+}: {
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  onHover: (name: string | null) => void;
+  onSelect: (name: string | null, hit: THREE.Intersection | null) => void;
+}) {
+  const gl = useThree((s) => s.gl);
+  const camera = useThree((s) => s.camera);
+  const raycasterRef = useRef(new THREE.Raycaster());
+  const ndcRef = useRef(new THREE.Vector2());
+
+  useEffect(() => {
+    let downAt: { x: number; y: number } | null = null;
+    let hoverRaf: number | null = null;
+    let lastHover: string | null = null;
+
+    const inCanvas = (e: PointerEvent) => {
+      const rect = gl.domElement.getBoundingClientRect();
+      return e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom;
+    };
+
+    const pick = (clientX: number, clientY: number) => {
+      const root = rootRef.current;
+      if (!root) return null;
+      const rect = gl.domElement.getBoundingClientRect();
+      ndcRef.current.set(((clientX - rect.left) / rect.width) * 2 - 1, -((clientY - rect.top) / rect.height) * 2 + 1);
+      raycasterRef.current.setFromCamera(ndcRef.current, camera);
+      const hit = raycasterRef.current.intersectObject(root, true).find((h) => isShown(h.object, root) && !isClipped(h.point));
+      const object = hit ? namedAncestor(hit.object, root) : null;
+      return object && hit ? { object, hit } : null;
+    };
+
+    const setHover = (name: string | null) => {
+      if (name === lastHover) return;
+      lastHover = name;
+      onHover(name);
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      downAt = isUiTarget(e.target) || !inCanvas(e) ? null : { x: e.clientX, y: e.clientY };
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (e.pointerType === "touch") return;
+      if (downAt || isUiTarget(e.target) || !inCanvas(e)) {
+        setHover(null);
+        return;
+      }
+      const { clientX, clientY } = e;
+      if (hoverRaf != null) cancelAnimationFrame(hoverRaf);
+      hoverRaf = requestAnimationFrame(() => {
+        hoverRaf = null;
+        setHover(pick(clientX, clientY)?.object.name ?? null);
+      });
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      if (!downAt) return;
+      const moved = Math.hypot(e.clientX - downAt.x, e.clientY - downAt.y);
+      downAt = null;
+      if (moved > CLICK_MOVE_TOLERANCE) return;
+      const picked = pick(e.clientX, e.clientY);
+      onSelect(picked?.object.name ?? null, picked?.hit ?? null);
+    };
+
+    const onPointerCancel = () => {
+      downAt = null;
+    };
+
+    window.addEventListener("pointerdown", onPointerDown);
+    window.addEventListener("pointermove", onPointerMove);
+    window.addEventListener("pointerup", onPointerUp);
+    window.addEventListener("pointercancel", onPointerCancel);
+
+    return () => {
+      window.removeEventListener("pointerdown", onPointerDown);
+      window.removeEventListener("pointermove", onPointerMove);
+      window.removeEventListener("pointerup", onPointerUp);
+      window.removeEventListener("pointercancel", onPointerCancel);
+      if (hoverRaf != null) cancelAnimationFrame(hoverRaf);
+    };
+  }, [gl, camera, rootRef, onHover, onSelect]);
+
+  return null;
+}
+
+// Swaps the materials of `object` for emissive-tinted clones and puts the
+// originals back when the selection changes.
+export function SelectionHighlight({ object, color = HIGHLIGHT_COLOR }: { object: THREE.Object3D | null; color?: THREE.ColorRepresentation }) {
+  useEffect(() => {
+    const meshes = meshesOf(object);
+    const originals = meshes.map((mesh) => mesh.material);
+
+    const tint = (material: THREE.Material) => {
+      const clone = material.clone();
+      // clone() copies the section planes; keep sharing the live array instead
+      clone.clippingPlanes = material.clippingPlanes;
+      if (clone instanceof THREE.MeshStandardMaterial || clone instanceof THREE.MeshPhongMaterial || clone instanceof THREE.MeshLambertMaterial) {
+        clone.emissive.set(color);
+        clone.emissiveIntensity = 0.6;
+      }
+      return clone;
+    };
+
+    for (const mesh of meshes) {
+      mesh.material = Array.isArray(mesh.material) ? mesh.material.map(tint) : tint(mesh.material);
+    }
+
+    return () => {
+      meshes.forEach((mesh, i) => {
+        const tinted = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+        tinted.forEach((m) => m.dispose());
+        mesh.material = originals[i];
+      });
+    };
+  }, [object, color]);
+
+  return null;
+}
+
+export function Outline({ object, color, thickness }: { object: THREE.Object3D | null; color: THREE.ColorRepresentation; thickness: number }) {
+  const meshes = useMemo(() => meshesOf(object), [object]);
+
+  return (
+    <>
+      {meshes.map((mesh) => (
+        <React.Fragment key={mesh.uuid}>
+          {createPortal(<Outlines thickness={thickness} color={color} screenspace userData={{ helper: true }} />, mesh)}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+// `outline={false}` keeps the pointer cursor for a post-processed highlight
+export function HoverOutline({ object, outline = true }: { object: THREE.Object3D | null; outline?: boolean }) {
+  useCursor(!!object);
+  return outline ? <Outline object={object} color={HOVER_OUTLINE_COLOR} thickness={2} /> : null;
+}
+
+// focus indicator for the structure reached with ]/[ on the model
+export function KeyboardFocusOutline({ object }: { object: THREE.Object3D | null }) {
+  return <Outline object={object} color={KEYBOARD_FOCUS_COLOR} thickness={4} />;
+}
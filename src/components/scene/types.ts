@@ -0,0 +1,20 @@
+// components/scene/types.ts
+import type * as THREE from "three";
+
+export type GLTF = {
+  scene: THREE.Group;
+  nodes: Record<string, THREE.Object3D>;
+  materials: Record<string, THREE.Material>;
+  // clips embedded in the GLB, played by AnimationClips
+  animations: THREE.AnimationClip[];
+};
+
+export type BBox = {
+  min: THREE.Vector3;
+  max: THREE.Vector3;
+  center: THREE.Vector3;
+  size: THREE.Vector3;
+  height: number;
+  // model scale the box was measured at; divide by it for model-group space
+  scale: number;
+};
@@ -0,0 +1,44 @@
+// components/scene/useModelBBox.ts
+import { useMemo } from "react";
+import * as THREE from "three";
+import type { Bounds } from "@/lib/modelManifest";
+import type { BBox } from "./types";
+import { restoreRestPositions } from "./utils";
+
+// a visible layer: its manifest box when the manifest lists it, otherwise
+// the loaded scene to measure
+export type BBoxSource = { scene: THREE.Object3D; box?: Bounds };
+
+// Framing box of the union of the given layers, at `scale` (the model
+// group's) and ignoring the group's rotation and any exploded-view offsets.
+export default function useModelBBox(layers: BBoxSource[], scale: number) {
+  return useMemo<BBox | null>(() => {
+    if (layers.length === 0) return null;
+    const box = new THREE.Box3();
+    for (const { scene, box: known } of layers) {
+      if (known) {
+        box.union(new THREE.Box3(new THREE.Vector3().fromArray(known.min).multiplyScalar(scale), new THREE.Vector3().fromArray(known.max).multiplyScalar(scale)));
+        continue;
+      }
+      const sceneClone = scene.clone(true);
+      restoreRestPositions(sceneClone);
+      sceneClone.scale.setScalar(scale);
+      sceneClone.updateMatrixWorld(true);
+      box.union(new THREE.Box3().setFromObject(sceneClone));
+    }
+
+    const size = new THREE.Vector3();
+    box.getSize(size);
+    const center = new THREE.Vector3();
+    box.getCenter(center);
+
+    return {
+      min: box.min.clone(),
+      max: box.max.clone(),
+      center,
+      size,
+      height: size.y,
+      scale,
+    };
+  }, [layers, scale]);
+}
@@ -0,0 +1,39 @@
+// components/scene/useRegionTargets.ts
+import { useMemo } from "react";
+import * as THREE from "three";
+import { useSceneTuning } from "@/components/sceneTuning";
+import { REGIONS } from "@/lib/regions";
+import { CAMERA_FOV } from "@/lib/sceneConfig";
+import type { ModelFraming, SectionTarget } from "./CameraRig";
+import type { BBox } from "./types";
+
+// CameraRig's framing measures and one camera target per region, resolved
+// against the model's framing box; null until the box is known.
+export default function useRegionTargets(bbox: BBox | null) {
+  const { modelYOffset } = useSceneTuning();
+
+  const framing = useMemo<ModelFraming | null>(() => {
+    if (!bbox) return null;
+    const bottomY = bbox.min.y;
+    const height = bbox.height || Math.max(1, bbox.max.y - bottomY);
+    return { bottomY, height, baseZ: Math.max(3.0, height * 3.0) };
+  }, [bbox]);
+
+  const sectionTargets = useMemo<SectionTarget[] | null>(() => {
+    if (!framing) return null;
+    const { bottomY, height, baseZ } = framing;
+
+    return REGIONS.map(({ camera }) => {
+      const orbit = THREE.MathUtils.degToRad(camera.orbit ?? 0);
+      const distance = baseZ * camera.distance;
+      return {
+        position: new THREE.Vector3(Math.sin(orbit) * distance, bottomY + height * camera.camY + modelYOffset, Math.cos(orbit) * distance),
+        lookAt: new THREE.Vector3(0, bottomY + height * camera.lookAtY, 0),
+        fov: camera.fov ?? CAMERA_FOV,
+        easing: camera.easing ?? "easeInOut",
+      };
+    });
+  }, [framing, modelYOffset]);
+
+  return { framing, sectionTargets };
+}
@@ -0,0 +1,71 @@
+// components/scene/utils.ts
+import * as THREE from "three";
+import type { BBox } from "./types";
+
+// GLTF primitives are often unnamed children of the node that carries the name
+export function namedAncestor(object: THREE.Object3D, root: THREE.Object3D) {
+  let o: THREE.Object3D | null = object;
+  while (o && o !== root) {
+    if (o.name) return o;
+    o = o.parent;
+  }
+  return null;
+}
+
+// visible itself and through every ancestor up to `root`
+export function isShown(object: THREE.Object3D, root: THREE.Object3D) {
+  let o: THREE.Object3D | null = object;
+  while (o && o !== root) {
+    if (!o.visible) return false;
+    o = o.parent;
+  }
+  return true;
+}
+
+// Meshes of the model itself. Render helpers added by tools (section caps,
+// stencil meshes and outlines) carry userData.helper, on themselves or on a
+// group around them, and are skipped with everything under them.
+export function meshesOf(object: THREE.Object3D | null) {
+  const meshes: THREE.Mesh[] = [];
+  const visit = (o: THREE.Object3D) => {
+    if (o.userData.helper) return;
+    if ((o as THREE.Mesh).isMesh) meshes.push(o as THREE.Mesh);
+    o.children.forEach(visit);
+  };
+  if (object) visit(object);
+  return meshes;
+}
+
+// Exploded nodes keep their authored position in userData.restPosition, so
+// anything measuring the layout (useModelBBox) can put them back first.
+export function restoreRestPositions(root: THREE.Object3D) {
+  root.traverse((o) => {
+    if (o.userData.restPosition) o.position.fromArray(o.userData.restPosition);
+  });
+}
+
+// wrap `angle` into the 2π window around `reference` so easing takes the short way
+export function nearestAngle(angle: number, reference: number) {
+  return angle + Math.round((reference - angle) / (Math.PI * 2)) * Math.PI * 2;
+}
+
+// Model yaw (group rotation.y) that turns `object` towards the camera on +Z,
+// measured around the model's vertical axis through bbox.center.
+export function facingYaw(object: THREE.Object3D, model: THREE.Object3D, bbox: BBox) {
+  const center = new THREE.Box3().setFromObject(object).getCenter(new THREE.Vector3());
+  model.worldToLocal(center);
+  const dx = center.x - bbox.center.x / bbox.scale;
+  const dz = center.z - bbox.center.z / bbox.scale;
+  if (Math.hypot(dx, dz) < 1e-4) return 0;
+  return Math.atan2(-dx, dz);
+}
+
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 0;
+
+// stable number per object identity, for React keys that follow a memo
+export function objectId(object: object) {
+  let id = objectIds.get(object);
+  if (id === undefined) objectIds.set(object, (id = nextObjectId++));
+  return id;
+}
@@ -0,0 +1,34 @@
+// components/sceneTuning.ts
+// Live scene tuning (see SceneTuning in lib/sceneConfig). It starts from
+// config/scene.json and only the debug panel changes it. Scene code reads
+// getSceneTuning() in useFrame; components that render from a value
+// subscribe with useSceneTuning().
+import { useSyncExternalStore } from "react";
+import { SCENE_TUNING_DEFAULTS, type SceneTuning } from "@/lib/sceneConfig";
+
+let tuning = SCENE_TUNING_DEFAULTS;
+const listeners = new Set<() => void>();
+
+export function getSceneTuning() {
+  return tuning;
+}
+
+export function setSceneTuning(patch: Partial<SceneTuning>) {
+  tuning = { ...tuning, ...patch };
+  listeners.forEach((l) => l());
+}
+
+export function resetSceneTuning() {
+  setSceneTuning(SCENE_TUNING_DEFAULTS);
+}
+
+export function subscribeSceneTuning(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useSceneTuning() {
+  return useSyncExternalStore(subscribeSceneTuning, getSceneTuning, () => SCENE_TUNING_DEFAULTS);
+}
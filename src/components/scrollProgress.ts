@@ -0,0 +1,104 @@
+// components/scrollProgress.ts
+// The one page scroll progress that the camera, the model tilt, the region
+// cards and the badges all read.
+//
+// Rule: the window (document) scroll is authoritative. The page's DOM
+// sections give the page its length and receive the wheel / touch / keyboard
+// scrolling; the canvas is fixed behind them and has no scroll container of
+// its own. Progress is window.scrollY over the scrollable height, 0..1.
+//
+// Consumers never re-render per frame: scene code reads getScrollProgress()
+// in useFrame, continuous DOM effects go through useScrollEffect, and React
+// state comes from useScrollProgress with a coarse selector.
+import { useEffect, useRef, useSyncExternalStore } from "react";
+
+type Listener = (progress: number) => void;
+
+let progress = 0;
+const listeners = new Set<Listener>();
+let rafId: number | null = null;
+let detach: (() => void) | null = null;
+
+function maxScroll() {
+  const docH = document.documentElement.scrollHeight || document.body.scrollHeight || 1;
+  const winH = window.innerHeight || 1;
+  return Math.max(1, docH - winH);
+}
+
+function measure() {
+  return Math.min(Math.max((window.scrollY || 0) / maxScroll(), 0), 1);
+}
+
+function update() {
+  rafId = null;
+  const next = measure();
+  if (next === progress) return;
+  progress = next;
+  listeners.forEach((l) => l(progress));
+}
+
+function schedule() {
+  if (rafId == null) rafId = requestAnimationFrame(update);
+}
+
+function attach() {
+  progress = measure();
+  window.addEventListener("scroll", schedule, { passive: true });
+  window.addEventListener("resize", schedule);
+  // panels opening or content loading change the scrollable height too
+  const observer = new ResizeObserver(schedule);
+  observer.observe(document.body);
+  return () => {
+    window.removeEventListener("scroll", schedule);
+    window.removeEventListener("resize", schedule);
+    observer.disconnect();
+    if (rafId != null) cancelAnimationFrame(rafId);
+    rafId = null;
+  };
+}
+
+export function subscribeScroll(listener: Listener) {
+  if (listeners.size === 0) detach = attach();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      detach?.();
+      detach = null;
+    }
+  };
+}
+
+// current progress; measured on the spot while nothing subscribes
+export function getScrollProgress() {
+  if (typeof window === "undefined") return 0;
+  return listeners.size ? progress : measure();
+}
+
+// scrolls the window so that the progress becomes `progress`
+export function scrollToProgress(progress: number, behavior: ScrollBehavior) {
+  window.scrollTo({ top: progress * maxScroll(), behavior });
+}
+
+// Re-renders only when `select(progress)` changes, so keep the selection
+// coarse (a region index, a whole percent).
+export function useScrollProgress<T extends number | string | boolean>(select: (progress: number) => T): T {
+  return useSyncExternalStore(
+    subscribeScroll,
+    () => select(getScrollProgress()),
+    () => select(0)
+  );
+}
+
+// Calls `onChange` with every new progress (and once on mount) outside React
+// rendering, for continuous effects written straight to the DOM.
+export function useScrollEffect(onChange: Listener) {
+  const callback = useRef(onChange);
+  useEffect(() => {
+    callback.current = onChange;
+  });
+  useEffect(() => {
+    callback.current(getScrollProgress());
+    return subscribeScroll((p) => callback.current(p));
+  }, []);
+}
@@ -0,0 +1,276 @@
+// components/useGestures.ts
+import React, { useCallback, useEffect, useRef } from "react";
+import useReducedMotion from "@/components/useReducedMotion";
+import { CLICK_MOVE_TOLERANCE, PITCH_LIMIT, ZOOM_MAX, ZOOM_MIN } from "@/lib/sceneConfig";
+
+export type GestureSettings = {
+  // radians of yaw / pitch per full element width / height dragged
+  yawSensitivity: number;
+  pitchSensitivity: number;
+  // world units of pan per full element width dragged with two fingers
+  panSensitivity: number;
+  // zoom change per wheel delta pixel (ctrl / pinch-to-zoom wheel only)
+  wheelSensitivity: number;
+  // 1/s decay rate of the spin after release; 0 disables inertia
+  friction: number;
+};
+
+export const DEFAULT_GESTURE_SETTINGS: GestureSettings = {
+  yawSensitivity: Math.PI * 1.4,
+  pitchSensitivity: Math.PI * 0.6,
+  panSensitivity: 1.5,
+  wheelSensitivity: 0.0025,
+  friction: 4,
+};
+
+// The user's view input, mutated by the gesture handlers and read every frame
+// by ModelInstance (yaw, pointerX) and CameraRig (pitch, zoom, pan).
+export type ViewControl = {
+  yaw: number;
+  // camera orbit above (+) / below (-) the look-at point, clamped to PITCH_LIMIT
+  pitch: number;
+  // camera distance divisor
+  zoom: number;
+  // world-space camera and look-at shift
+  pan: [number, number];
+  // hovering mouse, -1 (left edge) .. 1 (right edge)
+  pointerX: number;
+  // bumped by reset(); ModelInstance drops its focus yaw when it changes
+  resets: number;
+};
+
+// the view a fresh controller starts from, e.g. a shared link's camera
+export function newViewControl(initial: Partial<ViewControl> = {}): ViewControl {
+  return { yaw: 0, pitch: 0, zoom: 1, pan: [0, 0], pointerX: 0, resets: 0, ...initial };
+}
+
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+// One gesture controller for the 3D view, bound to the element wrapping the
+// canvas so presses on cards and panels never start a drag. Mouse drags
+// orbit (yaw and pitch), one-finger touch drags turn the model while vertical
+// swipes still scroll the page, two fingers pinch-zoom and pan, and
+// ctrl+wheel (which is also what trackpad pinches send) zooms while a plain
+// wheel keeps scrolling the page. Releasing a drag keeps the model spinning
+// and a double tap / double click resets the view. Passing `control` drives
+// that view input instead of one of its own, so two viewports can share a view.
+export default function useGestures(
+  targetRef: React.RefObject<HTMLElement | null>,
+  {
+    settings = DEFAULT_GESTURE_SETTINGS,
+    onInteract,
+    control: shared,
+  }: { settings?: GestureSettings; onInteract?: () => void; control?: React.RefObject<ViewControl> } = {}
+) {
+  const own = useRef<ViewControl>(newViewControl());
+  const controlRef = shared ?? own;
+  const reducedMotion = useReducedMotion();
+  const options = useRef({ settings, onInteract, reducedMotion });
+  useEffect(() => {
+    options.current = { settings, onInteract, reducedMotion };
+  });
+
+  const rotateBy = useCallback(
+    (delta: number) => {
+      controlRef.current.yaw += delta;
+      options.current.onInteract?.();
+    },
+    [controlRef]
+  );
+
+  // tilts the camera, clamped; returns the new pitch
+  const pitchBy = useCallback(
+    (delta: number) => {
+      const c = controlRef.current;
+      c.pitch = clamp(c.pitch + delta, -PITCH_LIMIT, PITCH_LIMIT);
+      options.current.onInteract?.();
+      return c.pitch;
+    },
+    [controlRef]
+  );
+
+  // multiplies the zoom, clamped; returns the new value
+  const zoomBy = useCallback(
+    (factor: number) => {
+      const c = controlRef.current;
+      c.zoom = clamp(c.zoom * factor, ZOOM_MIN, ZOOM_MAX);
+      return c.zoom;
+    },
+    [controlRef]
+  );
+
+  const reset = useCallback(() => {
+    const c = controlRef.current;
+    c.yaw = 0;
+    c.pitch = 0;
+    c.zoom = 1;
+    c.pan = [0, 0];
+    c.resets++;
+    options.current.onInteract?.();
+  }, [controlRef]);
+
+  useEffect(() => {
+    const el = targetRef.current;
+    if (!el) return;
+    // vertical swipes stay page scrolls; everything else comes to us
+    el.style.touchAction = "pan-y";
+
+    const pointers = new Map<number, { x: number; y: number }>();
+    let start: { x: number; y: number } | null = null;
+    let dragging = false;
+    let pinch: { distance: number; midX: number; midY: number } | null = null;
+    let velocity = 0;
+    let lastMove = 0;
+    let lastTap: { time: number; x: number; y: number } | null = null;
+    let spinRaf: number | null = null;
+
+    const stopSpin = () => {
+      if (spinRaf != null) cancelAnimationFrame(spinRaf);
+      spinRaf = null;
+    };
+
+    const spin = (velocity0: number) => {
+      let v = velocity0;
+      let last = performance.now();
+      const step = (now: number) => {
+        const dt = (now - last) / 1000;
+        last = now;
+        controlRef.current.yaw += v * dt;
+        v *= Math.exp(-options.current.settings.friction * dt);
+        spinRaf = Math.abs(v) > 0.05 ? requestAnimationFrame(step) : null;
+      };
+      spinRaf = requestAnimationFrame(step);
+    };
+
+    const pinchState = () => {
+      const [a, b] = Array.from(pointers.values());
+      return { distance: Math.hypot(a.x - b.x, a.y - b.y), midX: (a.x + b.x) / 2, midY: (a.y + b.y) / 2 };
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      if (e.pointerType === "mouse" && e.button !== 0) return;
+      stopSpin();
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      el.setPointerCapture?.(e.pointerId);
+      velocity = 0;
+      if (pointers.size === 1) {
+        start = { x: e.clientX, y: e.clientY };
+        dragging = false;
+      } else if (pointers.size === 2) {
+        start = null;
+        pinch = pinchState();
+      }
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      const rect = el.getBoundingClientRect();
+      const w = rect.width || 1;
+      const h = rect.height || 1;
+      const c = controlRef.current;
+      const { settings } = options.current;
+
+      const previous = pointers.get(e.pointerId);
+      if (!previous) return;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      if (pointers.size === 2 && pinch) {
+        const next = pinchState();
+        if (pinch.distance > 0) c.zoom = clamp(c.zoom * (next.distance / pinch.distance), ZOOM_MIN, ZOOM_MAX);
+        // screen right / up is world +x / +y for the camera facing -z
+        c.pan = [c.pan[0] - ((next.midX - pinch.midX) / w) * settings.panSensitivity, c.pan[1] + ((next.midY - pinch.midY) / w) * settings.panSensitivity];
+        pinch = next;
+        return;
+      }
+      if (pointers.size !== 1 || !start) return;
+
+      if (!dragging) {
+        if (Math.hypot(e.clientX - start.x, e.clientY - start.y) <= CLICK_MOVE_TOLERANCE) return;
+        dragging = true;
+        // dragging hands rotation back to the user
+        options.current.onInteract?.();
+      }
+      const dYaw = ((e.clientX - previous.x) / w) * settings.yawSensitivity;
+      c.yaw += dYaw;
+      // touch keeps vertical movement for page scrolling
+      if (e.pointerType === "mouse" || e.pointerType === "pen") {
+        c.pitch = clamp(c.pitch + ((e.clientY - previous.y) / h) * settings.pitchSensitivity, -PITCH_LIMIT, PITCH_LIMIT);
+      }
+
+      const now = performance.now();
+      const dt = Math.max((now - lastMove) / 1000, 1 / 240);
+      lastMove = now;
+      velocity = velocity * 0.7 + (dYaw / dt) * 0.3;
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      if (!pointers.has(e.pointerId)) return;
+      pointers.delete(e.pointerId);
+      el.releasePointerCapture?.(e.pointerId);
+
+      if (pointers.size === 1) {
+        // back to a one-finger drag from wherever the remaining finger is
+        const [rest] = Array.from(pointers.values());
+        pinch = null;
+        start = { x: rest.x, y: rest.y };
+        dragging = true;
+        velocity = 0;
+        return;
+      }
+      if (pointers.size > 0) return;
+      pinch = null;
+
+      const wasDragging = dragging;
+      dragging = false;
+      start = null;
+      if (wasDragging) {
+        const { settings, reducedMotion } = options.current;
+        // a drag that stopped before release doesn't spin
+        if (e.type === "pointerup" && settings.friction > 0 && !reducedMotion && performance.now() - lastMove < 80) spin(velocity);
+        return;
+      }
+      if (e.type !== "pointerup") return;
+
+      const now = performance.now();
+      if (lastTap && now - lastTap.time < DOUBLE_TAP_MS && Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < DOUBLE_TAP_DISTANCE) {
+        lastTap = null;
+        reset();
+      } else {
+        lastTap = { time: now, x: e.clientX, y: e.clientY };
+      }
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const c = controlRef.current;
+      c.zoom = clamp(c.zoom * Math.exp(-e.deltaY * options.current.settings.wheelSensitivity), ZOOM_MIN, ZOOM_MAX);
+    };
+
+    // the model follows the mouse anywhere on the page, cards included
+    const onHover = (e: PointerEvent) => {
+      if (e.pointerType === "mouse") controlRef.current.pointerX = clamp((e.clientX / (window.innerWidth || 1)) * 2 - 1, -1, 1);
+    };
+
+    el.addEventListener("pointerdown", onPointerDown);
+    el.addEventListener("pointermove", onPointerMove);
+    el.addEventListener("pointerup", onPointerUp);
+    el.addEventListener("pointercancel", onPointerUp);
+    el.addEventListener("wheel", onWheel, { passive: false });
+    window.addEventListener("pointermove", onHover);
+
+    return () => {
+      stopSpin();
+      el.removeEventListener("pointerdown", onPointerDown);
+      el.removeEventListener("pointermove", onPointerMove);
+      el.removeEventListener("pointerup", onPointerUp);
+      el.removeEventListener("pointercancel", onPointerUp);
+      el.removeEventListener("wheel", onWheel);
+      window.removeEventListener("pointermove", onHover);
+    };
+  }, [targetRef, controlRef, reset]);
+
+  return { control: controlRef, rotateBy, pitchBy, zoomBy, reset };
+}
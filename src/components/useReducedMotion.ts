@@ -0,0 +1,20 @@
+// components/useReducedMotion.ts
+import { useSyncExternalStore } from "react";
+
+const QUERY = "(prefers-reduced-motion: reduce)";
+
+function subscribe(listener: () => void) {
+  const media = window.matchMedia(QUERY);
+  media.addEventListener("change", listener);
+  return () => media.removeEventListener("change", listener);
+}
+
+// The visitor's prefers-reduced-motion setting, live. Eased camera and model
+// moves jump straight to their target while it is on.
+export default function useReducedMotion() {
+  return useSyncExternalStore(
+    subscribe,
+    () => window.matchMedia(QUERY).matches,
+    () => false
+  );
+}
@@ -0,0 +1,41 @@
+// components/viewPose.ts
+
+// The model yaw that ModelInstance applies every frame and the camera input
+// it is applied with, kept outside React state like the playback clock: the
+// scroll tilt and the pointer follow change the yaw all the time, so only
+// the URL mirror (rounded) and the debug badge subscribe to it.
+export type ViewPose = {
+  // group rotation.y, with the scroll turn and the pointer follow
+  applied: number;
+  // the user-controlled part of it: drag, keyboard and focus turns
+  user: number;
+  // the gesture camera input, as in ViewControl
+  pitch: number;
+  zoom: number;
+  pan: [number, number];
+};
+
+function samePose(a: ViewPose, b: ViewPose) {
+  return a.applied === b.applied && a.user === b.user && a.pitch === b.pitch && a.zoom === b.zoom && a.pan[0] === b.pan[0] && a.pan[1] === b.pan[1];
+}
+
+export function createViewPose(initial: Partial<ViewPose> = {}) {
+  let pose: ViewPose = { applied: 0, user: 0, pitch: 0, zoom: 1, pan: [0, 0], ...initial };
+  const listeners = new Set<() => void>();
+  return {
+    get: () => pose,
+    set(next: ViewPose) {
+      if (samePose(pose, next)) return;
+      pose = { ...next, pan: [...next.pan] };
+      listeners.forEach((l) => l());
+    },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type ViewPoseStore = ReturnType<typeof createViewPose>;
@@ -0,0 +1,56 @@
+// lib/annotations.ts
+// Authored annotation pins. Each pin hangs off a GLTF node by exact name, at a
+// point given in that node's local space, so it follows every transform of
+// the model. Get the numbers from the authoring mode (open any page with
+// ?annotate=1, click the surface and copy the snippet); the content build
+// checks every `mesh` against the model's node names. E.g.
+//
+//   {
+//     id: "sternocleidomastoid-origin",
+//     mesh: "Sternocleidomastoid_L",
+//     offset: [0.0213, 1.3127, 0.0641],
+//     normal: [0.12, -0.05, 0.99],
+//     title: { en: "Sternocleidomastoid — origin", id: "Sternokleidomastoideus — origo" },
+//     body: { en: "Manubrium of the sternum and medial clavicle.", id: "Manubrium sterni dan klavikula medial." },
+//   },
+import type { LocalizedText } from "@/lib/i18n";
+
+export type Vec3 = [number, number, number];
+
+export type Annotation = {
+  // kebab-case slug
+  id: string;
+  // exact GLTF node name the pin is attached to
+  mesh: string;
+  // pin position in the node's local space
+  offset: Vec3;
+  // outward surface normal in the node's local space; the pin hides while it
+  // faces away from the camera. Without one only occlusion is checked.
+  normal?: Vec3;
+  title: LocalizedText;
+  body: LocalizedText;
+};
+
+// A point picked in the authoring mode, before it has any text.
+export type AnnotationDraft = Pick<Annotation, "mesh" | "offset" | "normal">;
+
+// none authored against the shipped model yet
+export const ANNOTATIONS: Annotation[] = [];
+
+function round(v: Vec3, digits: number): Vec3 {
+  const f = 10 ** digits;
+  return v.map((x) => Math.round(x * f) / f) as Vec3;
+}
+
+// Paste-ready entry for ANNOTATIONS; the text is left for the author.
+export function annotationSnippet(draft: AnnotationDraft) {
+  const entry: Annotation = {
+    id: draft.mesh.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, ""),
+    mesh: draft.mesh,
+    offset: round(draft.offset, 4),
+    normal: draft.normal ? round(draft.normal, 3) : undefined,
+    title: { en: "", id: "" },
+    body: { en: "", id: "" },
+  };
+  return JSON.stringify(entry, null, 2);
+}
@@ -0,0 +1,113 @@
+// lib/contentSchema.ts
+// Schemas for the Markdown content in src/content/regions and
+// src/content/structures and the JSON tours in src/content/tours.
+// scripts/build-content.ts validates every file against them and writes the
+// entries to src/content/generated, which lib/regions, lib/structures and
+// lib/tours read. Only type imports from the app, so the build can load this
+// file outside the bundler.
+import { z } from "zod";
+import type { Easing } from "@/lib/easing";
+import type { Locale } from "@/lib/i18n";
+
+const text = z.string().trim().min(1);
+// every entry's id is its file name
+const slug = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "must be a kebab-case slug");
+
+// one string per locale; a locale missing from the schema is a type error
+export const localizedText = z.object({ en: text, id: text } satisfies Record<Locale, z.ZodString>).strict();
+
+export const reference = z
+  .object({
+    title: text,
+    url: z.url().optional(),
+  })
+  .strict();
+
+// fields shared by both collections; `id` is the file name and `description`
+// the Markdown body, one "## <locale>" section per locale
+const entry = {
+  id: slug,
+  description: localizedText,
+  // GLTF node names (or whole-word name prefixes), compared after normalizeMeshName()
+  meshes: z.array(text).min(1),
+  references: z.array(reference).default([]),
+};
+
+// [from, to], fractions of the model height
+const span = z
+  .array(z.number())
+  .length(2)
+  .refine(([from, to]) => from < to, "from must be below to");
+
+export const regionContent = z
+  .object({
+    ...entry,
+    title: localizedText,
+    icon: text,
+    // where the model manifest places meshes that no structure or region
+    // name claims: the centroid's height above the feet (y) and distance from
+    // the midline (x). Areas may overlap; one that limits x is more specific
+    // and wins.
+    area: z.object({ y: span, x: span.optional() }).strict().optional(),
+  })
+  .strict();
+
+export const structureContent = z
+  .object({
+    ...entry,
+    name: localizedText,
+    // Region id; must match a file in src/content/regions
+    region: text,
+    // muscle / functional group shown under the name
+    group: localizedText,
+    // alternative / lay names in any locale, used by search and typed quiz answers
+    synonyms: z.array(text).default([]),
+    // position in its region's lists; ties keep file name order
+    order: z.number().int().default(0),
+    origin: localizedText.optional(),
+    insertion: localizedText.optional(),
+    innervation: localizedText.optional(),
+    action: localizedText.optional(),
+  })
+  .strict();
+
+const vec3 = z.tuple([z.number(), z.number(), z.number()]);
+// the curves of lib/easing, which the build can't import
+const easing = z.enum(["linear", "easeIn", "easeOut", "easeInOut"] as const satisfies readonly Easing[]);
+
+// units are described at the top of lib/tours
+export const tourKeyframe = z
+  .object({
+    // seconds from the start of the tour
+    time: z.number().min(0),
+    camera: vec3,
+    lookAt: vec3,
+    rotation: z.number(),
+    // structure ids or exact node names
+    highlight: z.array(text).optional(),
+    caption: localizedText,
+    // easing of the move from the previous keyframe into this one
+    easing: easing.optional(),
+  })
+  .strict();
+
+export const tourContent = z
+  .object({
+    id: slug,
+    title: localizedText,
+    keyframes: z
+      .array(tourKeyframe)
+      .min(1)
+      .refine((keyframes) => keyframes[0].time === 0, "the first keyframe must be at time 0")
+      .refine((keyframes) => keyframes.every((k, i) => i === 0 || k.time > keyframes[i - 1].time), "keyframes must be in increasing time order"),
+  })
+  .strict();
+
+export type Reference = z.output<typeof reference>;
+export type RegionContent = z.output<typeof regionContent>;
+export type StructureContent = z.output<typeof structureContent>;
+export type TourContent = z.output<typeof tourContent>;
+
+// the per-structure facts shown in the info panel, in display order
+export const STRUCTURE_FACTS = ["origin", "insertion", "innervation", "action"] as const;
+export type StructureFact = (typeof STRUCTURE_FACTS)[number];
@@ -0,0 +1,11 @@
+// lib/easing.ts
+// Easing curves for camera moves: region-to-region flights and tour keyframes.
+
+export type Easing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - (1 - t) ** 3,
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+};
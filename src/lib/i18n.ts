@@ -0,0 +1,49 @@
+// lib/i18n.ts
+// Locale config and helpers. UI strings live in src/messages/<locale>.ts;
+// content that has per-locale wording (regions, structures, layers) carries
+// a LocalizedText next to its data.
+import en from "@/messages/en";
+import id from "@/messages/id";
+
+export const LOCALES = ["en", "id"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+export const LOCALE_COOKIE = "NEXT_LOCALE";
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  id: "Bahasa Indonesia",
+};
+
+export type Messages = typeof en;
+export type LocalizedText = Record<Locale, string>;
+
+const MESSAGES: Record<Locale, Messages> = { en, id };
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
+
+export function localize(text: LocalizedText, locale: Locale) {
+  return text[locale] ?? text[DEFAULT_LOCALE];
+}
+
+// "Score {correct}/{total}" + { correct: 3, total: 5 } -> "Score 3/5"
+export function format(template: string, vars: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in vars ? String(vars[key]) : match));
+}
+
+// "/region/head" -> "/id/region/head"
+export function localePath(locale: Locale, path = "/") {
+  return `/${locale}${path === "/" ? "" : path}`;
+}
+
+// strip a leading locale segment: "/id/region/head" -> "/region/head"
+export function stripLocale(pathname: string) {
+  const [, first, ...rest] = pathname.split("/");
+  return isLocale(first) ? `/${rest.join("/")}` : pathname;
+}
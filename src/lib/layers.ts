@@ -0,0 +1,68 @@
+// lib/layers.ts
+// Anatomical layers, one GLB each. All layers are rendered inside the same
+// model group so they share scale, Y offset and rotation and stay aligned.
+import type { LocalizedText } from "@/lib/i18n";
+
+export type LayerDef = {
+  id: string;
+  label: LocalizedText;
+  url: string;
+  // peel order: 0 is the outermost layer, peeled away first
+  peel: number;
+  defaultVisible: boolean;
+  defaultOpacity: number;
+};
+
+export type LayerState = { visible: boolean; opacity: number };
+export type LayerSettings = Record<string, LayerState>;
+export type LayerStatus = "idle" | "loading" | "ready" | "error";
+
+export const LAYERS: LayerDef[] = [
+  { id: "skin", label: { en: "Skin", id: "Kulit" }, url: "/models/Mia_Skin.glb", peel: 0, defaultVisible: false, defaultOpacity: 0.35 },
+  { id: "muscles", label: { en: "Muscles", id: "Otot" }, url: "/models/Mia_Muscles_OBG.glb", peel: 1, defaultVisible: true, defaultOpacity: 1 },
+  { id: "nervous", label: { en: "Nervous system", id: "Sistem saraf" }, url: "/models/Mia_Nervous.glb", peel: 2, defaultVisible: false, defaultOpacity: 1 },
+  { id: "organs", label: { en: "Organs", id: "Organ" }, url: "/models/Mia_Organs.glb", peel: 3, defaultVisible: false, defaultOpacity: 1 },
+  { id: "skeleton", label: { en: "Skeleton", id: "Rangka" }, url: "/models/Mia_Skeleton.glb", peel: 4, defaultVisible: false, defaultOpacity: 1 },
+];
+
+// the decimated copy of a model, with the same node names, that
+// scripts/build-low-detail.ts writes next to it for low-end devices
+export function lowDetailUrl(url: string) {
+  return url.replace(/\.glb$/, "_low.glb");
+}
+
+// the model to load for a layer
+export function layerUrl(layer: LayerDef, lowDetail: boolean) {
+  return lowDetail ? lowDetailUrl(layer.url) : layer.url;
+}
+
+// outermost first
+export const LAYERS_BY_PEEL = [...LAYERS].sort((a, b) => a.peel - b.peel);
+
+export function defaultLayerSettings(): LayerSettings {
+  return Object.fromEntries(LAYERS.map((l) => [l.id, { visible: l.defaultVisible, opacity: l.defaultOpacity }]));
+}
+
+// hide the outermost visible layer
+export function peelOuterLayer(settings: LayerSettings): LayerSettings {
+  const visible = LAYERS_BY_PEEL.filter((l) => settings[l.id]?.visible);
+  if (visible.length <= 1) return settings;
+  const outer = visible[0];
+  return { ...settings, [outer.id]: { ...settings[outer.id], visible: false } };
+}
+
+// show the hidden layer just outside the current outermost visible one
+export function restoreOuterLayer(settings: LayerSettings): LayerSettings {
+  const firstVisible = LAYERS_BY_PEEL.findIndex((l) => settings[l.id]?.visible);
+  const candidate = firstVisible > 0 ? LAYERS_BY_PEEL[firstVisible - 1] : LAYERS_BY_PEEL.find((l) => !settings[l.id]?.visible);
+  if (!candidate) return settings;
+  return { ...settings, [candidate.id]: { ...settings[candidate.id], visible: true } };
+}
+
+// settings with exactly `visibleIds` shown (defaults when omitted)
+export function layerSettingsFromVisible(visibleIds?: string[]): LayerSettings {
+  const settings = defaultLayerSettings();
+  if (!visibleIds) return settings;
+  for (const id of Object.keys(settings)) settings[id].visible = visibleIds.includes(id);
+  return settings;
+}
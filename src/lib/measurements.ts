@@ -0,0 +1,83 @@
+// lib/measurements.ts
+// Measurements on the model surface. Like annotation pins, every point hangs
+// off a GLTF node by name at a position in that node's local space, so it
+// follows the model as it turns, bobs or explodes. Lengths are calibrated by
+// mapping the model height (bbox.height) to a body height in centimetres.
+import type { Vec3 } from "@/lib/annotations";
+
+export type MeasureMode = "distance" | "angle" | "path";
+
+export type MeasurePoint = {
+  mesh: string;
+  offset: Vec3;
+  // outward surface normal in the node's local space; paths follow the
+  // surface between points that have one
+  normal?: Vec3;
+};
+
+export type Measurement = { id: string; mode: MeasureMode; points: MeasurePoint[] };
+
+export const DEFAULT_BODY_HEIGHT_CM = 165;
+export const MIN_BODY_HEIGHT_CM = 40;
+export const MAX_BODY_HEIGHT_CM = 250;
+
+// points that complete a measurement; a path takes any number, at least 2,
+// and is finished by hand
+export const POINTS_NEEDED: Record<MeasureMode, number | null> = { distance: 2, angle: 3, path: null };
+export const MIN_PATH_POINTS = 2;
+
+const MODE_CODES: Record<MeasureMode, string> = { distance: "d", angle: "a", path: "p" };
+
+let counter = 0;
+export function measurementId() {
+  return `m${++counter}`;
+}
+
+function round(v: number, digits: number) {
+  const f = 10 ** digits;
+  return Math.round(v * f) / f;
+}
+
+// [{ mode: "distance", points: [{ mesh: "Biceps_L", offset: [0.1, 1.2, 0.05], normal: [0, 0, 1] }, …] }, …]
+//   <-> "d:Biceps_L@0.1,1.2,0.05,0,0,1|…;…"
+export function encodeMeasurements(measurements: Measurement[]) {
+  return measurements
+    .map(({ mode, points }) => {
+      const encoded = points.map(({ mesh, offset, normal }) => {
+        const numbers = [...offset.map((v) => round(v, 4)), ...(normal ?? []).map((v) => round(v, 2))];
+        return `${mesh}@${numbers.join(",")}`;
+      });
+      return `${MODE_CODES[mode]}:${encoded.join("|")}`;
+    })
+    .join(";");
+}
+
+export function decodeMeasurements(raw: string): Measurement[] {
+  const measurements: Measurement[] = [];
+  for (const part of raw.split(";")) {
+    const [code, list] = part.split(":");
+    const mode = (Object.keys(MODE_CODES) as MeasureMode[]).find((m) => MODE_CODES[m] === code);
+    if (!mode || !list) continue;
+
+    const points: MeasurePoint[] = [];
+    for (const entry of list.split("|")) {
+      const at = entry.lastIndexOf("@");
+      const numbers = entry.slice(at + 1).split(",").map(Number);
+      if (at <= 0 || (numbers.length !== 3 && numbers.length !== 6) || !numbers.every(Number.isFinite)) continue;
+      points.push({
+        mesh: entry.slice(0, at),
+        offset: numbers.slice(0, 3) as Vec3,
+        normal: numbers.length === 6 ? (numbers.slice(3) as Vec3) : undefined,
+      });
+    }
+    const needed = POINTS_NEEDED[mode];
+    if (needed === null ? points.length >= MIN_PATH_POINTS : points.length === needed) measurements.push({ id: measurementId(), mode, points });
+  }
+  return measurements;
+}
+
+// "12.3 cm", "1.24 m", "87°"
+export function formatMeasurement(mode: MeasureMode, value: number) {
+  if (mode === "angle") return `${Math.round(value)}°`;
+  return value >= 100 ? `${(value / 100).toFixed(2)} m` : `${value.toFixed(1)} cm`;
+}
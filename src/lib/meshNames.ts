@@ -0,0 +1,30 @@
+// lib/meshNames.ts
+// GLTF node name handling shared by the catalog and the content build
+// (scripts/build-content.ts), so it has no runtime imports.
+
+// "Biceps_Brachii_L.001" -> "biceps brachii"
+export function normalizeMeshName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[._](\d{3})$/, "")
+    .replace(/[_.\-\s]+/g, " ")
+    .replace(/\s(l|r|left|right)$/, "")
+    .trim();
+}
+
+export function meshSide(name: string): "left" | "right" | null {
+  const n = name.toLowerCase().replace(/[._](\d{3})$/, "");
+  if (/[_.\-\s](l|left)$/.test(n)) return "left";
+  if (/[_.\-\s](r|right)$/.test(n)) return "right";
+  return null;
+}
+
+// a node matches a mesh name when they are equal after normalizing, or the
+// mesh name is a whole-word prefix of it ("Deltoid" matches "Deltoid_Anterior_L")
+export function matchesAny(meshName: string, candidates: string[]) {
+  const n = normalizeMeshName(meshName);
+  return candidates.some((c) => {
+    const cn = normalizeMeshName(c);
+    return n === cn || n.startsWith(cn + " ");
+  });
+}
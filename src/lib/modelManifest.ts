@@ -0,0 +1,49 @@
+// lib/modelManifest.ts
+// Model manifest: scripts/build-manifest.ts reads the GLBs in public/models
+// at build time and writes every mesh node's name, ancestry, bounds, triangle
+// count and region next to them. The client fetches it instead of walking the
+// loaded scenes for names and framing boxes.
+import type { Vec3 } from "@/lib/annotations";
+
+export const MODEL_MANIFEST_URL = "/models/manifest.json";
+export const MODEL_MANIFEST_VERSION = 1;
+
+export type Bounds = { min: Vec3; max: Vec3 };
+
+export type ManifestMesh = {
+  // node name; an unnamed mesh node goes by its nearest named ancestor, as
+  // picking resolves it
+  name: string;
+  // names of its named ancestors, root first
+  path: string[];
+  // geometry bounds in the node's own space
+  bounds: Bounds;
+  // the same with the node transforms applied, in the layer scene's space
+  box: Bounds;
+  // center of `box`
+  centroid: Vec3;
+  triangles: number;
+  // Region id, claimed by a structure or region mesh name ("name") or placed
+  // by the centroid in a region's area ("area")
+  region: string | null;
+  regionRule: "name" | "area" | null;
+};
+
+export type ManifestLayer = {
+  // LayerDef id
+  id: string;
+  url: string;
+  // union of the mesh boxes
+  box: Bounds;
+  triangles: number;
+  meshes: ManifestMesh[];
+};
+
+export type ModelManifest = { version: number; layers: ManifestLayer[] };
+
+// what the explorer, search and quiz need to know about a mesh
+export type ModelMesh = Pick<ManifestMesh, "name" | "region">;
+
+export function findManifestLayer(manifest: ModelManifest | null, layerId: string) {
+  return manifest?.layers.find((l) => l.id === layerId);
+}
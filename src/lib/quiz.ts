@@ -0,0 +1,159 @@
+// lib/quiz.ts
+// Self-test quiz: question selection with Leitner-style repetition and
+// per-structure progress kept in localStorage.
+import type { Locale } from "@/lib/i18n";
+import { normalizeMeshName } from "@/lib/meshNames";
+import type { ModelMesh } from "@/lib/modelManifest";
+import { describeMesh, findStructureByMesh, structureNames } from "@/lib/structures";
+import { similarity } from "@/lib/search";
+
+export type QuizKind = "name" | "find";
+export type QuizMode = QuizKind | "mixed";
+export type AnswerFormat = "choice" | "text";
+
+export type QuizItem = {
+  // structure id, or the normalized mesh name for meshes outside the catalog
+  key: string;
+  // name in the active locale, shown in choices and feedback
+  label: string;
+  // names in every locale plus synonyms, accepted as typed answers
+  synonyms: string[];
+  meshNames: string[];
+};
+
+export type QuizQuestion = {
+  kind: QuizKind;
+  item: QuizItem;
+  // the mesh that is highlighted (name) or expected (find)
+  meshName: string;
+  // multiple-choice labels, including the correct one
+  choices?: string[];
+};
+
+export type ItemStats = { attempts: number; correct: number; box: number };
+export type QuizProgress = { items: Record<string, ItemStats>; bestStreak: number };
+
+const STORAGE_KEY = "anatomy-quiz-progress-v1";
+const MAX_BOX = 4;
+const CHOICE_COUNT = 4;
+const TEXT_MATCH_THRESHOLD = 0.8;
+
+export function emptyProgress(): QuizProgress {
+  return { items: {}, bestStreak: 0 };
+}
+
+export function loadQuizProgress(): QuizProgress {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyProgress();
+    const parsed = JSON.parse(raw) as Partial<QuizProgress>;
+    return { items: parsed.items ?? {}, bestStreak: parsed.bestStreak ?? 0 };
+  } catch {
+    return emptyProgress();
+  }
+}
+
+export function saveQuizProgress(progress: QuizProgress) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch {}
+}
+
+export function itemKeyForMesh(meshName: string) {
+  return findStructureByMesh(meshName)?.id ?? normalizeMeshName(meshName);
+}
+
+// One item per structure (left/right meshes share an item), limited to a
+// region by the meshes' region assignment in the model manifest.
+export function buildQuizItems(meshes: ModelMesh[], regionId: string | "all", locale: Locale): QuizItem[] {
+  const items = new Map<string, QuizItem>();
+  for (const { name: meshName, region } of meshes) {
+    if (regionId !== "all" && region !== regionId) continue;
+    const key = itemKeyForMesh(meshName);
+    const existing = items.get(key);
+    if (existing) {
+      existing.meshNames.push(meshName);
+      continue;
+    }
+    const info = describeMesh(meshName, locale);
+    const synonyms = info.structure ? structureNames(info.structure) : [];
+    items.set(key, { key, label: info.name, synonyms, meshNames: [meshName] });
+  }
+  return Array.from(items.values());
+}
+
+function pickWeighted<T>(entries: T[], weight: (e: T) => number) {
+  const total = entries.reduce((sum, e) => sum + weight(e), 0);
+  let r = Math.random() * total;
+  for (const e of entries) {
+    r -= weight(e);
+    if (r <= 0) return e;
+  }
+  return entries[entries.length - 1];
+}
+
+function shuffle<T>(list: T[]) {
+  const out = [...list];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Items in a low box (recently missed or never seen) come up much more often;
+// the previous item is skipped so a miss is retried after something else.
+export function nextQuestion(
+  items: QuizItem[],
+  progress: QuizProgress,
+  mode: QuizMode,
+  format: AnswerFormat,
+  previousKey?: string
+): QuizQuestion | null {
+  if (items.length === 0) return null;
+  const candidates = items.length > 1 ? items.filter((i) => i.key !== previousKey) : items;
+  const item = pickWeighted(candidates, (i) => 2 ** (MAX_BOX - (progress.items[i.key]?.box ?? 0)));
+  const kind: QuizKind = mode === "mixed" ? (Math.random() < 0.5 ? "name" : "find") : mode;
+  const meshName = item.meshNames[Math.floor(Math.random() * item.meshNames.length)];
+
+  let choices: string[] | undefined;
+  if (kind === "name" && format === "choice") {
+    const distractors = shuffle(items.filter((i) => i.key !== item.key).map((i) => i.label)).slice(0, CHOICE_COUNT - 1);
+    choices = shuffle([item.label, ...distractors]);
+  }
+
+  return { kind, item, meshName, choices };
+}
+
+export function isTextAnswerCorrect(answer: string, item: QuizItem) {
+  if (!answer.trim()) return false;
+  return [item.label, ...item.synonyms].some((t) => similarity(answer, t) >= TEXT_MATCH_THRESHOLD);
+}
+
+export function isPickCorrect(meshName: string | null, item: QuizItem) {
+  return !!meshName && itemKeyForMesh(meshName) === item.key;
+}
+
+export function recordAnswer(progress: QuizProgress, key: string, correct: boolean, streak: number): QuizProgress {
+  const prev = progress.items[key] ?? { attempts: 0, correct: 0, box: 0 };
+  return {
+    items: {
+      ...progress.items,
+      [key]: {
+        attempts: prev.attempts + 1,
+        correct: prev.correct + (correct ? 1 : 0),
+        box: correct ? Math.min(prev.box + 1, MAX_BOX) : 0,
+      },
+    },
+    bestStreak: Math.max(progress.bestStreak, streak),
+  };
+}
+
+// items answered at least once, worst accuracy first
+export function weakestItems(items: QuizItem[], progress: QuizProgress, limit = 3) {
+  return items
+    .map((item) => ({ item, stats: progress.items[item.key] }))
+    .filter((e): e is { item: QuizItem; stats: ItemStats } => !!e.stats && e.stats.attempts > 0)
+    .sort((a, b) => a.stats.correct / a.stats.attempts - b.stats.correct / b.stats.attempts)
+    .slice(0, limit);
+}
@@ -0,0 +1,113 @@
+// lib/regions.ts
+// Single source of truth for the anatomy regions shown on the page.
+// Cards, card hide/show progress, the scroll page count and the camera
+// targets are all derived from this list, so adding a region is one
+// Markdown file plus one layout entry.
+import regionContent from "@/content/generated/regions.json";
+import type { RegionContent } from "@/lib/contentSchema";
+import type { Easing } from "@/lib/easing";
+
+export type RegionScrollWindow = {
+  // normalized page scroll (0..1) where the card transition starts / ends
+  start: number;
+  end: number;
+  // "hide": visible until `start`, fades out by `end`
+  // "reveal": hidden until `start`, fades in by `end`
+  mode: "hide" | "reveal";
+};
+
+export type RegionFraming = {
+  // heights are fractions of the model bbox height, measured up from bbox.min.y
+  camY: number;
+  lookAtY: number;
+  // fraction of the base camera distance (see SceneWithAutoTargets)
+  distance: number;
+  // degrees the camera orbits around the model's vertical axis, positive
+  // towards the model's left (the viewer's right); default 0, head-on
+  orbit?: number;
+  // vertical field of view in degrees; default CAMERA_FOV
+  fov?: number;
+  // easing of the scroll-driven flight from the previous region into this
+  // one; default easeInOut, so the camera settles on each region
+  easing?: Easing;
+};
+
+// Text, icon and meshes come from src/content/regions/<id>.md (see
+// lib/contentSchema); how each region scrolls and is framed stays here.
+export type Region = RegionContent & {
+  scroll: RegionScrollWindow;
+  camera: RegionFraming;
+};
+
+type RegionLayout = Pick<Region, "id" | "camera">;
+
+// page order of the regions
+const LAYOUT: RegionLayout[] = [
+  {
+    id: "head",
+    camera: { camY: 1.15, lookAtY: 0.92, distance: 0.9, fov: 45 },
+  },
+  {
+    id: "torso",
+    camera: { camY: 0.65, lookAtY: 0.52, distance: 0.75 },
+  },
+  {
+    id: "arms",
+    camera: { camY: 0.3, lookAtY: 0.25, distance: 0.65, orbit: 30 },
+  },
+  {
+    id: "legs",
+    camera: { camY: 0.25, lookAtY: 0.15, distance: 0.55, orbit: -20, fov: 55 },
+  },
+];
+
+// Card fades as fractions of the scroll from one region to the next: a card
+// fades out early on the way to the next region, the last one fades in on
+// the way to it.
+const CARD_HIDE = { start: 0.15, end: 0.4 };
+const CARD_REVEAL = 0.6;
+
+function scrollOffset(index: number, count: number) {
+  return count > 1 ? index / (count - 1) : 0;
+}
+
+function scrollWindow(index: number, count: number): RegionScrollWindow {
+  // a lone region's card never hides
+  if (count < 2) return { start: 1, end: 1, mode: "hide" };
+  const rest = scrollOffset(index, count);
+  const step = scrollOffset(1, count);
+  if (index === count - 1) return { start: rest - step * CARD_REVEAL, end: rest, mode: "reveal" };
+  return { start: rest + step * CARD_HIDE.start, end: rest + step * CARD_HIDE.end, mode: "hide" };
+}
+
+const CONTENT = regionContent as RegionContent[];
+
+export const REGIONS: Region[] = LAYOUT.map((layout, index) => {
+  const content = CONTENT.find((c) => c.id === layout.id);
+  if (!content) throw new Error(`Region "${layout.id}" has no src/content/regions/${layout.id}.md`);
+  return { ...content, ...layout, scroll: scrollWindow(index, LAYOUT.length) };
+});
+
+// 0 = card fully visible, 1 = card fully hidden, for a normalized page scroll
+export function regionHideProgress(region: Region, scroll: number) {
+  const { start, end, mode } = region.scroll;
+  let p: number;
+  if (scroll <= start) p = 0;
+  else if (scroll >= end) p = 1;
+  else p = (scroll - start) / (end - start);
+  return mode === "reveal" ? 1 - p : p;
+}
+
+export function findRegion(id: string | null | undefined) {
+  return REGIONS.find((r) => r.id === id);
+}
+
+// Page scroll (0..1) at which the camera rests on region `index`; the camera
+// interpolates between regions evenly over the whole page.
+export function regionScrollOffset(index: number) {
+  return scrollOffset(index, REGIONS.length);
+}
+
+export function regionIndexAtScroll(scroll: number) {
+  return Math.min(Math.max(Math.round(scroll * (REGIONS.length - 1)), 0), REGIONS.length - 1);
+}
@@ -0,0 +1,60 @@
+// lib/sceneConfig.ts
+// Scene tuning constants shared by the 3D components.
+import sceneTuning from "@/config/scene.json";
+
+// The knobs the ?debug=1 panel edits live. Defaults load from
+// config/scene.json, which is the file the panel exports; at runtime read them
+// through components/sceneTuning so the edits apply.
+export type SceneTuning = {
+  modelScale: number;
+  // model group y at mid-scroll
+  modelYOffset: number;
+  // how much of the scroll-driven turn is applied, 0..1
+  rotationIntensity: number;
+  // model y travel over the full scroll
+  verticalBob: number;
+  // yaw, radians, when the mouse is at the window edge
+  hoverPointerRotMax: number;
+  // per-frame easing of the camera position (regions, tours), of the flight
+  // to a focused structure, and of the look-at point
+  cameraLerp: number;
+  focusCameraLerp: number;
+  lookAtLerp: number;
+};
+
+export const SCENE_TUNING_DEFAULTS: SceneTuning = sceneTuning;
+
+export const ROTATION_FIX: [number, number, number] = [0, 0, 0];
+export const CLICK_MOVE_TOLERANCE = 5; // px of pointer travel before a press counts as a drag
+export const HIGHLIGHT_COLOR = "#6366f1";
+export const HOVER_OUTLINE_COLOR = "#f9a8d4";
+export const QUIZ_HIGHLIGHT_COLOR = "#f59e0b";
+export const KEYBOARD_FOCUS_COLOR = "#facc15";
+export const TOUR_HIGHLIGHT_COLOR = "#22d3ee";
+export const SECTION_CAP_COLOR = "#9f1239";
+export const MEASURE_COLOR = "#34d399";
+export const SHORTENING_COLOR = "#ef4444";
+export const LENGTHENING_COLOR = "#3b82f6";
+export const LENGTH_CHANGE_RATE = 0.05; // share of its length a muscle has to change per second of clip time to count as shortening / lengthening
+export const XRAY_OPACITY = 0.15; // outer layers in the x-ray render mode
+// color-by-group render mode: muscle groups, then regions, take these in turn
+export const GROUP_PALETTE = ["#e11d48", "#f97316", "#eab308", "#84cc16", "#22c55e", "#14b8a6", "#0ea5e9", "#6366f1", "#a855f7", "#ec4899"];
+export const UNGROUPED_COLOR = "#a3a3a3";
+export const EXPLODE_DISTANCE = 1.5; // exploded-view travel at full amount, as a multiple of the centre-to-centroid distance
+export const KEYBOARD_ROTATE_STEP = Math.PI / 12; // yaw per left / right arrow press
+export const KEYBOARD_PITCH_STEP = Math.PI / 24; // pitch per up / down arrow press
+export const ZOOM_STEP = 1.2; // zoom factor per +/- press
+export const ZOOM_MIN = 0.6;
+export const ZOOM_MAX = 2.5;
+export const PITCH_LIMIT = 0.9; // radians the camera may orbit above / below the framing
+export const CAMERA_FOV = 50; // degrees, vertical; regions may set their own
+export const FRAMING_ASPECT = 1; // narrower viewports back the camera off so the framings keep their width
+export const FOCUS_PADDING = 1.35; // camera distance multiplier around a focused structure
+export const MIN_DPR = 0.75; // adaptive resolution floor, in device pixels per CSS pixel
+export const MAX_DPR = 2;
+export const DPR_STEP = 0.25;
+export const SLOW_FRAME_MS = 25; // average frame time that lowers the resolution (below 40 fps)
+export const FAST_FRAME_MS = 18; // and that raises it again (about 55 fps)
+export const IDLE_RENDER_DELAY = 3000; // ms without input or movement before the canvas only renders on demand
+export const LOW_END_CORES = 4; // at most this many CPU cores, or
+export const LOW_END_MEMORY_GB = 4; // at most this much memory (where the browser tells), loads low-detail models
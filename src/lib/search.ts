@@ -0,0 +1,116 @@
+// lib/search.ts
+// Fuzzy structure search over the named nodes of the loaded model.
+import type { Locale } from "@/lib/i18n";
+import { meshSide, normalizeMeshName } from "@/lib/meshNames";
+import { describeMesh, structureNames, type Structure } from "@/lib/structures";
+
+export type SearchEntry = {
+  meshName: string;
+  label: string;
+  group: string;
+  structure?: Structure;
+  // normalized strings the query is matched against: names in every locale,
+  // synonyms and the raw node name, so either language finds a structure
+  terms: string[];
+};
+
+export type SearchResult = SearchEntry & { score: number };
+
+const MIN_SCORE = 0.35;
+
+function normalizeQuery(q: string) {
+  return q.toLowerCase().replace(/[_.\-\s]+/g, " ").trim();
+}
+
+function levenshtein(a: string, b: string) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+// 0..1 edit-distance similarity of two normalized strings
+export function similarity(a: string, b: string) {
+  const x = normalizeQuery(a);
+  const y = normalizeQuery(b);
+  if (!x && !y) return 1;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+function isSubsequence(q: string, term: string) {
+  let i = 0;
+  for (let j = 0; j < term.length && i < q.length; j++) {
+    if (term[j] === q[i]) i++;
+  }
+  return i === q.length;
+}
+
+// 0..1, higher is better. Exact > prefix > word prefix > substring > typo-tolerant.
+export function fuzzyScore(query: string, term: string) {
+  const q = normalizeQuery(query);
+  if (!q || !term) return 0;
+  if (term === q) return 1;
+  if (term.startsWith(q)) return 0.9 + 0.05 * (q.length / term.length);
+  if (term.split(" ").some((w) => w.startsWith(q))) return 0.8;
+  if (term.includes(q)) return 0.7;
+
+  // typo tolerance against the whole term and against each word
+  const candidates = [term, ...term.split(" ")];
+  const best = Math.max(
+    ...candidates.map((c) => {
+      const head = c.slice(0, Math.max(q.length, 1));
+      return 1 - levenshtein(q, head) / Math.max(q.length, head.length);
+    })
+  );
+  if (best >= 0.6) return 0.6 * best;
+
+  if (q.length >= 3 && isSubsequence(q, term)) return 0.4 * (q.length / term.length);
+  return 0;
+}
+
+const SIDE_LABEL: Record<Locale, Record<"left" | "right", string>> = {
+  en: { left: "left", right: "right" },
+  id: { left: "kiri", right: "kanan" },
+};
+
+export function buildSearchIndex(nodeNames: string[], locale: Locale): SearchEntry[] {
+  const seen = new Set<string>();
+  const entries: SearchEntry[] = [];
+
+  for (const meshName of nodeNames) {
+    if (!meshName || seen.has(meshName)) continue;
+    seen.add(meshName);
+
+    const info = describeMesh(meshName, locale);
+    const side = meshSide(meshName);
+    const terms = (info.structure ? structureNames(info.structure) : [info.name]).map(normalizeQuery);
+    terms.push(normalizeMeshName(meshName));
+
+    entries.push({
+      meshName,
+      label: side ? `${info.name} (${SIDE_LABEL[locale][side]})` : info.name,
+      group: info.group,
+      structure: info.structure,
+      terms: Array.from(new Set(terms)),
+    });
+  }
+
+  return entries.sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function searchStructures(index: SearchEntry[], query: string, limit = 8): SearchResult[] {
+  if (!normalizeQuery(query)) return [];
+  return index
+    .map((entry) => ({ ...entry, score: Math.max(...entry.terms.map((t) => fuzzyScore(query, t))) }))
+    .filter((r) => r.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+    .slice(0, limit);
+}
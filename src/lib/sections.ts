@@ -0,0 +1,45 @@
+// lib/sections.ts
+// Cross-section planes. Each anatomical plane cuts along one model axis at a
+// position given as a 0..1 fraction of the model bounds on that axis; by
+// default the part above / right of / in front of the cut is removed.
+
+export type SectionAxis = "axial" | "sagittal" | "coronal";
+export type ModelAxis = "x" | "y" | "z";
+export type SectionPlane = { position: number; flipped: boolean };
+// only the active planes are present
+export type SectionState = Partial<Record<SectionAxis, SectionPlane>>;
+
+export const SECTION_AXES: { id: SectionAxis; axis: ModelAxis }[] = [
+  { id: "axial", axis: "y" },
+  { id: "sagittal", axis: "x" },
+  { id: "coronal", axis: "z" },
+];
+
+export const DEFAULT_SECTION: SectionPlane = { position: 0.5, flipped: false };
+
+export function activeSections(state: SectionState) {
+  return SECTION_AXES.filter((a) => state[a.id]);
+}
+
+// { axial: { position: 0.62, flipped: false }, coronal: { position: 0.5, flipped: true } }
+//   <-> "axial:0.62,coronal:0.50:f"
+export function encodeSections(state: SectionState) {
+  return activeSections(state)
+    .map(({ id }) => {
+      const plane = state[id]!;
+      return `${id}:${plane.position.toFixed(2)}${plane.flipped ? ":f" : ""}`;
+    })
+    .join(",");
+}
+
+export function decodeSections(raw: string): SectionState {
+  const state: SectionState = {};
+  for (const part of raw.split(",")) {
+    const [id, position, flag] = part.split(":");
+    const axis = SECTION_AXES.find((a) => a.id === id);
+    const value = Number(position);
+    if (!axis || position === undefined || !Number.isFinite(value)) continue;
+    state[axis.id] = { position: Math.min(Math.max(value, 0), 1), flipped: flag === "f" };
+  }
+  return state;
+}
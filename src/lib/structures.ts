@@ -0,0 +1,88 @@
+// lib/structures.ts
+// Catalog of named anatomical structures and helpers to map GLTF mesh
+// names (e.g. "Biceps_Brachii_L.001") onto them. The entries are written in
+// src/content/structures/<id>.md and validated at build time.
+import structureContent from "@/content/generated/structures.json";
+import { STRUCTURE_FACTS, type Reference, type StructureContent, type StructureFact } from "@/lib/contentSchema";
+import { type Locale, type LocalizedText, localize } from "@/lib/i18n";
+import { matchesAny, normalizeMeshName } from "@/lib/meshNames";
+import { REGIONS } from "@/lib/regions";
+
+export type Structure = StructureContent;
+
+function regionIndex(structure: Structure) {
+  return REGIONS.findIndex((r) => r.id === structure.region);
+}
+
+// grouped by region in page order, then by each file's `order`
+export const STRUCTURES: Structure[] = [...(structureContent as Structure[])].sort((a, b) => regionIndex(a) - regionIndex(b) || a.order - b.order);
+
+export function findStructure(id: string | null | undefined) {
+  return STRUCTURES.find((s) => s.id === id);
+}
+
+export function structuresInRegion(regionId: string) {
+  return STRUCTURES.filter((s) => s.region === regionId);
+}
+
+export function findStructureByMesh(meshName: string) {
+  return STRUCTURES.find((s) => matchesAny(meshName, s.meshes));
+}
+
+export function findRegionByMesh(meshName: string) {
+  const structure = findStructureByMesh(meshName);
+  if (structure) return REGIONS.find((r) => r.id === structure.region);
+  return REGIONS.find((r) => matchesAny(meshName, r.meshes));
+}
+
+export type MeshInfo = {
+  meshName: string;
+  name: string;
+  group: string;
+  description: string;
+  // origin, insertion, … that the structure's file fills in, in display order
+  facts: { fact: StructureFact; text: string }[];
+  references: Reference[];
+  structure?: Structure;
+};
+
+const UNASSIGNED: LocalizedText = { en: "Unassigned", id: "Belum dikelompokkan" };
+const NO_DESCRIPTION: LocalizedText = {
+  en: "No description available for this structure yet.",
+  id: "Belum ada deskripsi untuk struktur ini.",
+};
+
+// Panel-ready info for any mesh name, falling back to a readable version of
+// the raw node name for meshes that are not in the catalog yet.
+export function describeMesh(meshName: string, locale: Locale): MeshInfo {
+  const structure = findStructureByMesh(meshName);
+  if (structure) {
+    return {
+      meshName,
+      name: localize(structure.name, locale),
+      group: localize(structure.group, locale),
+      description: localize(structure.description, locale),
+      facts: STRUCTURE_FACTS.flatMap((fact) => {
+        const text = structure[fact];
+        return text ? [{ fact, text: localize(text, locale) }] : [];
+      }),
+      references: structure.references,
+      structure,
+    };
+  }
+  const region = findRegionByMesh(meshName);
+  const readable = normalizeMeshName(meshName);
+  return {
+    meshName,
+    name: readable.charAt(0).toUpperCase() + readable.slice(1),
+    group: localize(region?.title ?? UNASSIGNED, locale),
+    description: localize(NO_DESCRIPTION, locale),
+    facts: [],
+    references: [],
+  };
+}
+
+// every name a structure goes by, across locales; used for matching
+export function structureNames(structure: Structure) {
+  return [...Object.values(structure.name), ...structure.synonyms];
+}
@@ -0,0 +1,65 @@
+// lib/tours.ts
+// Guided tours: timelines of camera keyframes with captions, played back by
+// the tour panel. Each tour is a plain JSON file in src/content/tours, named
+// after its id, validated and collected at build time (see
+// lib/contentSchema). Positions use the same model-relative units as the
+// region framings in lib/regions, so they work for any model size:
+//
+//   - y is a fraction of the model height, measured up from its feet
+//   - x and z are multiples of the base camera distance (z points at the
+//     viewer), so camera [0, camY, distance] and lookAt [0, lookAtY, 0]
+//     reproduce a region's framing
+//   - rotation is the model yaw in degrees, 0 facing the viewer
+//   - highlight lists structure ids from lib/structures or exact node names
+import tourContent from "@/content/generated/tours.json";
+import type { Vec3 } from "@/lib/annotations";
+import type { TourContent } from "@/lib/contentSchema";
+import { EASINGS, type Easing } from "@/lib/easing";
+
+export type TourEasing = Easing;
+
+// keyframes are sorted by time, the first one at 0
+export type Tour = TourContent;
+export type TourKeyframe = Tour["keyframes"][number];
+
+// the camera, target and yaw at one moment of a tour
+export type TourPose = { camera: Vec3; lookAt: Vec3; rotation: number };
+
+// in file name order
+export const TOURS: Tour[] = tourContent as Tour[];
+
+export function findTour(id: string | null | undefined) {
+  return TOURS.find((t) => t.id === id);
+}
+
+export function tourDuration(tour: Tour) {
+  return tour.keyframes[tour.keyframes.length - 1]?.time ?? 0;
+}
+
+// index of the keyframe whose caption is showing at `time`
+export function keyframeIndexAt(tour: Tour, time: number) {
+  let index = 0;
+  tour.keyframes.forEach((k, i) => {
+    if (k.time <= time) index = i;
+  });
+  return index;
+}
+
+function mix(a: Vec3, b: Vec3, t: number): Vec3 {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+export function sampleTour(tour: Tour, time: number): TourPose | null {
+  const index = keyframeIndexAt(tour, time);
+  const a = tour.keyframes[index];
+  if (!a) return null;
+  const b = tour.keyframes[index + 1];
+  if (!b || b.time <= a.time) return { camera: a.camera, lookAt: a.lookAt, rotation: a.rotation };
+
+  const t = EASINGS[b.easing ?? "easeInOut"](Math.min(Math.max((time - a.time) / (b.time - a.time), 0), 1));
+  return {
+    camera: mix(a.camera, b.camera, t),
+    lookAt: mix(a.lookAt, b.lookAt, t),
+    rotation: a.rotation + (b.rotation - a.rotation) * t,
+  };
+}
@@ -0,0 +1,6 @@
+// lib/ui.ts
+
+// DOM overlays (cards, panels, buttons) sit above the canvas; presses on them never pick
+export function isUiTarget(target: EventTarget | null) {
+  return target instanceof Element && !!target.closest("a, button, input, select, textarea, label, [data-ui]");
+}
@@ -0,0 +1,110 @@
+// lib/viewState.ts
+// The shareable part of the 3D view, encoded in the URL query so a pasted
+// link reproduces what the sender sees. Defaults are left out of the URL.
+import { LAYERS } from "@/lib/layers";
+import { DEFAULT_BODY_HEIGHT_CM, MAX_BODY_HEIGHT_CM, MIN_BODY_HEIGHT_CM, decodeMeasurements, encodeMeasurements, type Measurement } from "@/lib/measurements";
+import { PITCH_LIMIT, ZOOM_MAX, ZOOM_MIN } from "@/lib/sceneConfig";
+import { decodeSections, encodeSections, type SectionState } from "@/lib/sections";
+
+export type ViewState = {
+  // applied model yaw, radians
+  rotation: number;
+  // camera input from the gestures: orbit above / below the framing
+  // (radians), distance divisor and world-space shift
+  pitch: number;
+  zoom: number;
+  pan: [number, number];
+  // region the scroll-driven camera is framing
+  region: string | null;
+  // mesh the camera override is framing (search / structure routes)
+  focus: string | null;
+  selected: string | null;
+  // visible layer ids
+  layers: string[];
+  // active cross-section planes
+  sections: SectionState;
+  measurements: Measurement[];
+  // centimetres the model height stands for
+  bodyHeight: number;
+};
+
+const DEFAULT_LAYERS = LAYERS.filter((l) => l.defaultVisible).map((l) => l.id);
+
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+function sameSet(a: string[], b: string[]) {
+  return a.length === b.length && a.every((x) => b.includes(x));
+}
+
+export function encodeViewState(state: ViewState) {
+  const params = new URLSearchParams();
+  if (Math.abs(state.rotation) >= 0.005) params.set("rot", state.rotation.toFixed(2));
+  if (Math.abs(state.pitch) >= 0.005) params.set("pitch", state.pitch.toFixed(2));
+  if (Math.abs(state.zoom - 1) >= 0.005) params.set("zoom", state.zoom.toFixed(2));
+  if (state.pan.some((v) => Math.abs(v) >= 0.005)) params.set("pan", state.pan.map((v) => v.toFixed(2)).join(","));
+  if (state.region) params.set("region", state.region);
+  if (state.focus) params.set("focus", state.focus);
+  if (state.selected && state.selected !== state.focus) params.set("sel", state.selected);
+  if (!sameSet(state.layers, DEFAULT_LAYERS)) params.set("layers", state.layers.join(","));
+  const sections = encodeSections(state.sections);
+  if (sections) params.set("sec", sections);
+  const measurements = encodeMeasurements(state.measurements);
+  if (measurements) params.set("meas", measurements);
+  if (state.bodyHeight !== DEFAULT_BODY_HEIGHT_CM) params.set("height", String(state.bodyHeight));
+  return params.toString();
+}
+
+export function decodeViewState(params: { get(name: string): string | null }): Partial<ViewState> {
+  const state: Partial<ViewState> = {};
+
+  const rot = Number(params.get("rot"));
+  if (params.get("rot") !== null && Number.isFinite(rot)) state.rotation = rot;
+
+  const pitch = Number(params.get("pitch"));
+  if (params.get("pitch") !== null && Number.isFinite(pitch)) state.pitch = clamp(pitch, -PITCH_LIMIT, PITCH_LIMIT);
+
+  const zoom = Number(params.get("zoom"));
+  if (params.get("zoom") !== null && Number.isFinite(zoom)) state.zoom = clamp(zoom, ZOOM_MIN, ZOOM_MAX);
+
+  const pan = params.get("pan")?.split(",").map(Number);
+  if (pan?.length === 2 && pan.every(Number.isFinite)) state.pan = [pan[0], pan[1]];
+
+  const region = params.get("region");
+  if (region) state.region = region;
+
+  const focus = params.get("focus");
+  if (focus) state.focus = focus;
+
+  const selected = params.get("sel") ?? focus;
+  if (selected) state.selected = selected;
+
+  const layers = params.get("layers");
+  if (layers !== null) {
+    const known = new Set(LAYERS.map((l) => l.id));
+    state.layers = layers.split(",").filter((id) => known.has(id));
+  }
+
+  const sections = params.get("sec");
+  if (sections) state.sections = decodeSections(sections);
+
+  const measurements = params.get("meas");
+  if (measurements) state.measurements = decodeMeasurements(measurements);
+
+  const height = Number(params.get("height"));
+  if (params.get("height") !== null && Number.isFinite(height)) state.bodyHeight = Math.min(Math.max(height, MIN_BODY_HEIGHT_CM), MAX_BODY_HEIGHT_CM);
+
+  return state;
+}
+
+// Tool switches such as ?annotate=1 or ?debug=1 are not part of the view, but
+// they have to survive the URL writer replacing the query with the encoded view.
+const TOOL_FLAGS = ["annotate", "debug"];
+
+export function withToolFlags(query: string, current: { get(name: string): string | null }) {
+  const params = new URLSearchParams(query);
+  for (const flag of TOOL_FLAGS) {
+    const value = current.get(flag);
+    if (value !== null) params.set(flag, value);
+  }
+  return params.toString();
+}
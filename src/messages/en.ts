@@ -0,0 +1,226 @@
+// messages/en.ts
+const en = {
+  meta: {
+    title: "3D Anatomy",
+    description: "Interactive 3D human anatomy: explore regions, muscles and layers of the body.",
+  },
+  header: {
+    title: "3D Anatomy",
+    hint: "Move cursor left/right, click-drag or swipe to rotate the model freely (360°).",
+  },
+  scene: {
+    loading: "Loading 3D...",
+    rotateHint: "Move cursor left/right to rotate model. Click-drag or touch-drag for 360° control.",
+    scrolled: "scrolled",
+    noWebGL: "3D isn't available in this browser, so each region is shown by its icon.",
+  },
+  loading: {
+    layer: "Loading {layer}…",
+    megabytes: "{mb} MB",
+    missing: "The {layer} model was not found at {url} (HTTP {status}). Check that the file is deployed.",
+    network: "The {layer} model could not be downloaded. Check your connection and try again.",
+    parse: "The {layer} model could not be read. The file may be damaged or use an unsupported format.",
+    retry: "Retry",
+    hide: "Hide layer",
+  },
+  card: {
+    explore: "Explore",
+    learnMore: "Learn more",
+  },
+  region: {
+    label: "Region",
+  },
+  search: {
+    label: "Search structures",
+    placeholder: "Search muscles, e.g. biceps",
+    loading: "Loading structures...",
+  },
+  structure: {
+    close: "Close structure details",
+    origin: "Origin",
+    insertion: "Insertion",
+    innervation: "Innervation",
+    action: "Action",
+    references: "References",
+  },
+  layers: {
+    title: "Layers",
+    label: "Anatomical layers",
+    peel: "Peel",
+    restore: "Restore",
+    loading: "loading…",
+    unavailable: "unavailable",
+    opacity: "{layer} opacity",
+  },
+  sections: {
+    title: "Sections",
+    label: "Cross-section planes",
+    axial: "Axial",
+    sagittal: "Sagittal",
+    coronal: "Coronal",
+    position: "{plane} plane position",
+    flip: "Flip",
+  },
+  explode: {
+    title: "Explode",
+    label: "Exploded view",
+    amount: "Explode amount",
+    grouped: "Keep muscle groups together",
+    regionOnly: "Current region only",
+  },
+  a11y: {
+    model: "3D anatomy model",
+    roleDescription: "3D viewer",
+    help: "Left and right arrows rotate the model, up and down arrows tilt it, plus and minus zoom, Page Up and Page Down move between regions. The right and left square brackets step through the structures, Enter selects one and Escape clears the selection.",
+    region: "Region: {name}",
+    structure: "{name}, {group}. {index} of {total}",
+    selected: "Selected {name}",
+    cleared: "Selection cleared",
+    rotated: "Rotated to {degrees} degrees",
+    tilted: "Tilted to {degrees} degrees",
+    zoom: "Zoom {percent}%",
+  },
+  tour: {
+    open: "Guided tour",
+    title: "Guided tour",
+    choose: "Tour",
+    play: "Play",
+    pause: "Pause",
+    end: "End tour",
+    seek: "Tour position",
+    time: "{current} / {total}",
+    narration: "Read captions aloud",
+    narrationUnavailable: "Narration isn't supported in this browser",
+  },
+  quiz: {
+    open: "Quiz me",
+    title: "Quiz",
+    end: "End",
+    score: "Score {correct}/{total} · streak {streak} · best {best}",
+    region: "Quiz region",
+    allRegions: "All regions",
+    questionType: "Question type",
+    nameIt: "Name it",
+    findIt: "Find it",
+    mixed: "Mixed",
+    answerFormat: "Answer format",
+    choices: "Choices",
+    typed: "Typed",
+    empty: "No structures from this region are in the loaded model.",
+    namePrompt: "Which structure is highlighted?",
+    findPrompt: "Click the {name} on the model.",
+    yourAnswer: "Your answer",
+    check: "Check",
+    correct: "Correct!",
+    wrong: "Not quite — it is the {name}.",
+    picked: "You picked: {name}",
+    pickedNothing: "nothing",
+    next: "Next question",
+    practice: "Needs practice",
+  },
+  language: {
+    label: "Language",
+  },
+  annotations: {
+    authoring: "Annotation authoring",
+    hint: "Click the model surface to place a pin and get its snippet.",
+    copy: "Copy JSON",
+    copied: "Copied",
+    clear: "Clear",
+  },
+  measure: {
+    open: "Measure",
+    title: "Measure",
+    close: "Done",
+    mode: "Measurement type",
+    distance: "Distance",
+    angle: "Angle",
+    path: "Surface path",
+    hint: "Click the model surface: {count} more point(s).",
+    hintPath: "Click points along the surface, then finish the path.",
+    finish: "Finish path",
+    undo: "Undo point",
+    bodyHeight: "Body height (cm)",
+    delete: "Delete measurement {index}",
+    clear: "Delete all",
+  },
+  controls: {
+    title: "Controls",
+    label: "Gesture sensitivity",
+    rotate: "Rotate speed",
+    pan: "Pan speed",
+    zoom: "Zoom speed",
+    inertia: "Keep spinning after a drag",
+    reset: "Defaults",
+  },
+  render: {
+    title: "View",
+    label: "Render mode and lighting",
+    mode: "Render mode",
+    standard: "Standard",
+    xray: "X-ray",
+    wireframe: "Wireframe",
+    group: "Color by group",
+    effect: "Highlight effect",
+    none: "None",
+    outline: "Outline",
+    bloom: "Glow",
+    lighting: "Lighting",
+    studio: "Studio",
+    clinical: "Clinical",
+    rim: "Rim-lit",
+  },
+  animation: {
+    open: "Animations",
+    title: "Animations",
+    close: "Close",
+    clip: "Animation clip",
+    choose: "Choose a clip",
+    untitled: "Clip {index}",
+    play: "Play",
+    pause: "Pause",
+    seek: "Clip position",
+    time: "{current} / {total} s",
+    loop: "Loop",
+    speed: "Playback speed",
+    speedValue: "{speed}×",
+    colorCode: "Color muscles by length change",
+    shortening: "Shortening",
+    lengthening: "Lengthening",
+  },
+  compare: {
+    open: "Compare",
+    title: "Compare",
+    label: "Comparison view",
+    close: "Close",
+    linked: "Follow the main view",
+    layers: "Layers",
+    region: "Region",
+    viewport: "Comparison model",
+  },
+  export: {
+    title: "Export",
+    label: "Export image or handout",
+    resolution: "Resolution",
+    transparent: "Transparent background",
+    background: "Background color",
+    labels: "Include annotation labels",
+    png: "Save PNG",
+    handout: "Handout PDF",
+    working: "Rendering…",
+    failed: "The export failed. Try a lower resolution.",
+  },
+  debug: {
+    title: "Debug",
+    label: "Debug panel",
+    fps: "FPS",
+    drawCalls: "Draw calls",
+    triangles: "Triangles",
+    bbox: "Show bounding box",
+    targets: "Show camera targets",
+    export: "Export scene.json",
+    reset: "Reset",
+  },
+};
+
+export default en;
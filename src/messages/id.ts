@@ -0,0 +1,228 @@
+// messages/id.ts
+import type { Messages } from "@/lib/i18n";
+
+const id: Messages = {
+  meta: {
+    title: "Anatomi 3D",
+    description: "Anatomi manusia 3D interaktif: jelajahi regio, otot, dan lapisan tubuh.",
+  },
+  header: {
+    title: "Anatomi 3D",
+    hint: "Gerakkan kursor ke kiri/kanan, klik-seret, atau usap untuk memutar model dengan bebas (360°).",
+  },
+  scene: {
+    loading: "Memuat 3D...",
+    rotateHint: "Gerakkan kursor ke kiri/kanan untuk memutar model. Klik-seret atau sentuh-seret untuk kontrol 360°.",
+    scrolled: "digulir",
+    noWebGL: "3D tidak tersedia di browser ini, jadi setiap wilayah ditampilkan dengan ikonnya.",
+  },
+  loading: {
+    layer: "Memuat {layer}…",
+    megabytes: "{mb} MB",
+    missing: "Model {layer} tidak ditemukan di {url} (HTTP {status}). Pastikan berkasnya sudah diunggah.",
+    network: "Model {layer} gagal diunduh. Periksa koneksi Anda lalu coba lagi.",
+    parse: "Model {layer} tidak dapat dibaca. Berkasnya mungkin rusak atau formatnya tidak didukung.",
+    retry: "Coba lagi",
+    hide: "Sembunyikan lapisan",
+  },
+  card: {
+    explore: "Jelajahi",
+    learnMore: "Pelajari",
+  },
+  region: {
+    label: "Regio",
+  },
+  search: {
+    label: "Cari struktur",
+    placeholder: "Cari otot, mis. biseps",
+    loading: "Memuat struktur...",
+  },
+  structure: {
+    close: "Tutup detail struktur",
+    origin: "Origo",
+    insertion: "Insersio",
+    innervation: "Persarafan",
+    action: "Fungsi",
+    references: "Referensi",
+  },
+  layers: {
+    title: "Lapisan",
+    label: "Lapisan anatomi",
+    peel: "Kupas",
+    restore: "Pulihkan",
+    loading: "memuat…",
+    unavailable: "tidak tersedia",
+    opacity: "Opasitas {layer}",
+  },
+  sections: {
+    title: "Potongan",
+    label: "Bidang potong",
+    axial: "Aksial",
+    sagittal: "Sagital",
+    coronal: "Koronal",
+    position: "Posisi bidang {plane}",
+    flip: "Balik",
+  },
+  explode: {
+    title: "Urai",
+    label: "Tampilan terurai",
+    amount: "Tingkat uraian",
+    grouped: "Satukan kelompok otot",
+    regionOnly: "Hanya regio saat ini",
+  },
+  a11y: {
+    model: "Model anatomi 3D",
+    roleDescription: "Penampil 3D",
+    help: "Panah kiri dan kanan memutar model, panah atas dan bawah memiringkannya, plus dan minus memperbesar atau memperkecil, Page Up dan Page Down berpindah antarregio. Kurung siku kanan dan kiri menelusuri struktur, Enter memilih satu struktur dan Escape menghapus pilihan.",
+    region: "Regio: {name}",
+    structure: "{name}, {group}. {index} dari {total}",
+    selected: "{name} dipilih",
+    cleared: "Pilihan dihapus",
+    rotated: "Diputar ke {degrees} derajat",
+    tilted: "Dimiringkan ke {degrees} derajat",
+    zoom: "Perbesaran {percent}%",
+  },
+  tour: {
+    open: "Tur terpandu",
+    title: "Tur terpandu",
+    choose: "Tur",
+    play: "Putar",
+    pause: "Jeda",
+    end: "Akhiri tur",
+    seek: "Posisi tur",
+    time: "{current} / {total}",
+    narration: "Bacakan keterangan",
+    narrationUnavailable: "Narasi tidak didukung di peramban ini",
+  },
+  quiz: {
+    open: "Uji saya",
+    title: "Kuis",
+    end: "Selesai",
+    score: "Skor {correct}/{total} · beruntun {streak} · terbaik {best}",
+    region: "Regio kuis",
+    allRegions: "Semua regio",
+    questionType: "Jenis soal",
+    nameIt: "Sebutkan",
+    findIt: "Temukan",
+    mixed: "Campuran",
+    answerFormat: "Format jawaban",
+    choices: "Pilihan",
+    typed: "Ketik",
+    empty: "Tidak ada struktur dari regio ini pada model yang dimuat.",
+    namePrompt: "Struktur apa yang disorot?",
+    findPrompt: "Klik {name} pada model.",
+    yourAnswer: "Jawaban Anda",
+    check: "Periksa",
+    correct: "Benar!",
+    wrong: "Belum tepat — jawabannya {name}.",
+    picked: "Anda memilih: {name}",
+    pickedNothing: "tidak ada",
+    next: "Soal berikutnya",
+    practice: "Perlu latihan",
+  },
+  language: {
+    label: "Bahasa",
+  },
+  annotations: {
+    authoring: "Penyusunan anotasi",
+    hint: "Klik permukaan model untuk menaruh pin dan mendapatkan cuplikannya.",
+    copy: "Salin JSON",
+    copied: "Tersalin",
+    clear: "Hapus",
+  },
+  measure: {
+    open: "Ukur",
+    title: "Ukur",
+    close: "Selesai",
+    mode: "Jenis pengukuran",
+    distance: "Jarak",
+    angle: "Sudut",
+    path: "Lintasan permukaan",
+    hint: "Klik permukaan model: {count} titik lagi.",
+    hintPath: "Klik titik-titik di sepanjang permukaan, lalu selesaikan lintasan.",
+    finish: "Selesaikan lintasan",
+    undo: "Batalkan titik",
+    bodyHeight: "Tinggi badan (cm)",
+    delete: "Hapus pengukuran {index}",
+    clear: "Hapus semua",
+  },
+  controls: {
+    title: "Kontrol",
+    label: "Kepekaan gestur",
+    rotate: "Kecepatan putar",
+    pan: "Kecepatan geser",
+    zoom: "Kecepatan zoom",
+    inertia: "Terus berputar setelah diseret",
+    reset: "Bawaan",
+  },
+  render: {
+    title: "Tampilan",
+    label: "Mode render dan pencahayaan",
+    mode: "Mode render",
+    standard: "Standar",
+    xray: "Sinar-X",
+    wireframe: "Kerangka kawat",
+    group: "Warna per kelompok",
+    effect: "Efek sorotan",
+    none: "Tanpa efek",
+    outline: "Garis tepi",
+    bloom: "Pendar",
+    lighting: "Pencahayaan",
+    studio: "Studio",
+    clinical: "Klinis",
+    rim: "Cahaya tepi",
+  },
+  animation: {
+    open: "Animasi",
+    title: "Animasi",
+    close: "Tutup",
+    clip: "Klip animasi",
+    choose: "Pilih klip",
+    untitled: "Klip {index}",
+    play: "Putar",
+    pause: "Jeda",
+    seek: "Posisi klip",
+    time: "{current} / {total} dtk",
+    loop: "Ulangi",
+    speed: "Kecepatan putar",
+    speedValue: "{speed}×",
+    colorCode: "Warnai otot menurut perubahan panjang",
+    shortening: "Memendek",
+    lengthening: "Memanjang",
+  },
+  compare: {
+    open: "Bandingkan",
+    title: "Bandingkan",
+    label: "Tampilan perbandingan",
+    close: "Tutup",
+    linked: "Ikuti tampilan utama",
+    layers: "Lapisan",
+    region: "Regio",
+    viewport: "Model pembanding",
+  },
+  export: {
+    title: "Ekspor",
+    label: "Ekspor gambar atau handout",
+    resolution: "Resolusi",
+    transparent: "Latar transparan",
+    background: "Warna latar",
+    labels: "Sertakan label anotasi",
+    png: "Simpan PNG",
+    handout: "PDF handout",
+    working: "Merender…",
+    failed: "Ekspor gagal. Coba resolusi yang lebih rendah.",
+  },
+  debug: {
+    title: "Debug",
+    label: "Panel debug",
+    fps: "FPS",
+    drawCalls: "Draw call",
+    triangles: "Segitiga",
+    bbox: "Tampilkan kotak batas",
+    targets: "Tampilkan target kamera",
+    export: "Ekspor scene.json",
+    reset: "Atur ulang",
+  },
+};
+
+export default id;
@@ -0,0 +1,34 @@
+// proxy.ts
+// Sends locale-less URLs ("/", "/region/head?rot=1") to their localized
+// route, picking the locale from the switcher cookie, then Accept-Language.
+import { NextResponse, type NextRequest } from "next/server";
+import { DEFAULT_LOCALE, LOCALE_COOKIE, LOCALES, isLocale, localePath, type Locale } from "@/lib/i18n";
+
+function preferredLocale(request: NextRequest): Locale {
+  const cookie = request.cookies.get(LOCALE_COOKIE)?.value;
+  if (isLocale(cookie)) return cookie;
+
+  // "id-ID,id;q=0.9,en;q=0.8" -> first supported primary tag by weight
+  const accepted = (request.headers.get("accept-language") ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, q] = part.trim().split(";q=");
+      return { lang: tag.split("-")[0].toLowerCase(), q: q ? Number(q) : 1 };
+    })
+    .sort((a, b) => b.q - a.q);
+  return accepted.map((a) => a.lang).find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+export function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (LOCALES.some((l) => pathname === `/${l}` || pathname.startsWith(`/${l}/`))) return NextResponse.next();
+
+  const url = request.nextUrl.clone();
+  url.pathname = localePath(preferredLocale(request), pathname);
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // skip Next internals and anything with a file extension (models, favicon, ...)
+  matcher: ["/((?!_next/|api/|.*\\..*).*)"],
+};